@@ -0,0 +1,126 @@
+// Scheduler benchmark: run with `npm run bench -w @recury/api`
+// Measures what calendar loads and the daily job do for every active template,
+// and checks that long-running interval series keep producing occurrences.
+import { performance } from 'perf_hooks';
+import { addMonths, startOfDay } from 'date-fns';
+import type { TaskTemplate } from '@prisma/client';
+import { getOccurrencesInRange, getNextOccurrence, formatDateKey, toUTC } from '../src/lib/scheduler.js';
+
+const ITERATIONS = 200;
+
+function makeTemplate(title: string, fields: Partial<TaskTemplate>): TaskTemplate {
+  return {
+    id: title,
+    title,
+    notes: null,
+    isActive: true,
+    pausedAt: null,
+    resumeOn: null,
+    generatedThrough: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    carryPolicy: 'CARRY_OVER_STACK',
+    graceHours: null,
+    scheduleType: 'DAILY',
+    startDate: null,
+    anchorDate: null,
+    endDate: null,
+    maxOccurrences: null,
+    intervalUnit: null,
+    intervalValue: null,
+    weeklyDays: null,
+    monthlyDay: null,
+    monthlyMode: null,
+    monthlyOrdinal: null,
+    monthlyWeekday: null,
+    yearlyMonth: null,
+    yearlyDay: null,
+    rrule: null,
+    rotationWeeks: null,
+    holidayCalendar: null,
+    holidayRule: null,
+    weekendRule: null,
+    seasonStart: null,
+    seasonEnd: null,
+    dueTime: null,
+    timezone: null,
+    tags: null,
+    color: null,
+    sortOrder: 0,
+    ...fields,
+  };
+}
+
+const day = (iso: string) => toUTC(startOfDay(new Date(`${iso}T00:00:00`)));
+
+const fixture: TaskTemplate[] = [
+  makeTemplate('daily', { scheduleType: 'DAILY' }),
+  makeTemplate('weekly', { scheduleType: 'WEEKLY', weeklyDays: '1,3,5' }),
+  makeTemplate('monthly-last', { scheduleType: 'MONTHLY', monthlyMode: 'LAST_DAY' }),
+  makeTemplate('monthly-2nd-tue', { scheduleType: 'MONTHLY', monthlyMode: 'NTH_WEEKDAY', monthlyOrdinal: 2, monthlyWeekday: 2 }),
+  makeTemplate('yearly', { scheduleType: 'YEARLY', yearlyMonth: 2, yearlyDay: 29 }),
+  // Anchors far in the past: the old stepping loop stopped after 10,000 steps
+  makeTemplate('interval-daily-1990', { scheduleType: 'INTERVAL', anchorDate: day('1990-01-01'), intervalUnit: 'DAY', intervalValue: 1 }),
+  makeTemplate('interval-3days-1970', { scheduleType: 'INTERVAL', anchorDate: day('1970-01-01'), intervalUnit: 'DAY', intervalValue: 3 }),
+  makeTemplate('interval-2weeks', { scheduleType: 'INTERVAL', anchorDate: day('2001-01-01'), intervalUnit: 'WEEK', intervalValue: 2 }),
+  makeTemplate('interval-month-end', { scheduleType: 'INTERVAL', anchorDate: day('1999-01-31'), intervalUnit: 'MONTH', intervalValue: 1 }),
+  makeTemplate('interval-leap-year', { scheduleType: 'INTERVAL', anchorDate: day('1996-02-29'), intervalUnit: 'YEAR', intervalValue: 4 }),
+  makeTemplate('holidays', { scheduleType: 'WEEKLY', weeklyDays: '1', holidayCalendar: 'DE-BY', holidayRule: 'NEXT_WORKDAY', weekendRule: 'NEXT_MONDAY' }),
+  makeTemplate('rrule', { scheduleType: 'RRULE', rrule: 'FREQ=MONTHLY;BYDAY=-1FR', anchorDate: day('2020-01-01') }),
+];
+
+function bench(label: string, fn: () => void): void {
+  fn(); // Warm-up
+  const start = performance.now();
+  for (let i = 0; i < ITERATIONS; i++) fn();
+  const perRun = (performance.now() - start) / ITERATIONS;
+  console.log(`${label.padEnd(44)} ${perRun.toFixed(3)} ms/run`);
+}
+
+function check(label: string, actual: string[], expected: string[]): void {
+  const ok = actual.join(',') === expected.join(',');
+  console.log(`${ok ? 'ok  ' : 'FAIL'} ${label}${ok ? '' : `: got ${actual.join(', ')}, expected ${expected.join(', ')}`}`);
+  if (!ok) process.exitCode = 1;
+}
+
+const today = startOfDay(new Date());
+const keys = (dates: Date[]) => dates.map(formatDateKey);
+
+console.log(`Scheduler benchmark (${fixture.length} templates, ${ITERATIONS} runs each)\n`);
+
+bench('calendar month (all templates)', () => {
+  for (const template of fixture) getOccurrencesInRange(template, today, addMonths(today, 1));
+});
+
+bench('daily job horizon, 2 months (all templates)', () => {
+  for (const template of fixture) getOccurrencesInRange(template, today, addMonths(today, 2));
+});
+
+bench('next occurrence (all templates)', () => {
+  for (const template of fixture) getNextOccurrence(template, today);
+});
+
+console.log('');
+
+const byTitle = (title: string) => fixture.find(t => t.title === title)!;
+
+check(
+  'daily interval from 1990 still produces occurrences',
+  keys(getOccurrencesInRange(byTitle('interval-daily-1990'), new Date(2030, 0, 1), new Date(2030, 0, 3))),
+  ['2030-01-01', '2030-01-02', '2030-01-03']
+);
+check(
+  'month-end interval clamps per month',
+  keys(getOccurrencesInRange(byTitle('interval-month-end'), new Date(2027, 0, 1), new Date(2027, 3, 30))),
+  ['2027-01-31', '2027-02-28', '2027-03-31', '2027-04-30']
+);
+check(
+  'leap-day interval clamps to Feb 28',
+  keys(getOccurrencesInRange(byTitle('interval-leap-year'), new Date(2099, 0, 1), new Date(2100, 11, 31))),
+  ['2100-02-28']
+);
+check(
+  'next occurrence of a 3-day interval',
+  keys([getNextOccurrence(byTitle('interval-3days-1970'), new Date(2026, 9, 19))!]),
+  ['2026-10-19']
+);
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "TaskTemplate" ADD COLUMN "monthlyOrdinal" INTEGER;
+ALTER TABLE "TaskTemplate" ADD COLUMN "monthlyWeekday" INTEGER;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "TaskTemplate" ADD COLUMN "holidayCalendar" TEXT;
+ALTER TABLE "TaskTemplate" ADD COLUMN "holidayRule" TEXT;
+
+-- CreateTable
+CREATE TABLE "Holiday" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "date" DATETIME NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "Holiday_date_idx" ON "Holiday"("date");
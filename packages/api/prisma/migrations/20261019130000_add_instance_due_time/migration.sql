@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "TaskInstance" ADD COLUMN "dueTime" TEXT;
+
+-- Existing instances take the (single) due time of their template
+UPDATE "TaskInstance" SET "dueTime" = (
+    SELECT "dueTime" FROM "TaskTemplate" WHERE "TaskTemplate"."id" = "TaskInstance"."templateId"
+);
+
+-- DropIndex
+DROP INDEX "TaskInstance_templateId_date_idx";
+
+-- CreateIndex
+CREATE INDEX "TaskInstance_templateId_date_dueTime_idx" ON "TaskInstance"("templateId", "date", "dueTime");
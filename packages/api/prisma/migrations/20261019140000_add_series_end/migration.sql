@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "TaskTemplate" ADD COLUMN "endDate" DATETIME;
+ALTER TABLE "TaskTemplate" ADD COLUMN "maxOccurrences" INTEGER;
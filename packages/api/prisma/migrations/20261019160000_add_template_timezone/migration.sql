@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "TaskTemplate" ADD COLUMN "timezone" TEXT;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "TaskTemplate" ADD COLUMN "seasonStart" TEXT;
+ALTER TABLE "TaskTemplate" ADD COLUMN "seasonEnd" TEXT;
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "ScheduleException" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "templateId" TEXT NOT NULL,
+    "date" DATETIME NOT NULL,
+    "kind" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ScheduleException_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "TaskTemplate" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ScheduleException_templateId_date_kind_key" ON "ScheduleException"("templateId", "date", "kind");
+
+-- CreateIndex
+CREATE INDEX "ScheduleException_templateId_idx" ON "ScheduleException"("templateId");
@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE "AwayPeriod" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "startDate" DATETIME NOT NULL,
+    "endDate" DATETIME NOT NULL,
+    "name" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "AwayPeriod_startDate_endDate_idx" ON "AwayPeriod"("startDate", "endDate");
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "TaskTemplate" ADD COLUMN "pausedAt" DATETIME;
+ALTER TABLE "TaskTemplate" ADD COLUMN "resumeOn" DATETIME;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "TaskTemplate" ADD COLUMN "rotationWeeks" TEXT;
+
+-- AlterTable
+ALTER TABLE "TaskInstance" ADD COLUMN "rotationWeek" INTEGER;
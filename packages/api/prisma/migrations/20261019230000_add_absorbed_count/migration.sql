@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "TaskInstance" ADD COLUMN "absorbedCount" INTEGER NOT NULL DEFAULT 0;
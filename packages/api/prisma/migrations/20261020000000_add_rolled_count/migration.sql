@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "TaskInstance" ADD COLUMN "rolledCount" INTEGER NOT NULL DEFAULT 0;
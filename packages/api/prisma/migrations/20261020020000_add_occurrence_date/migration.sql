@@ -0,0 +1,9 @@
+-- AlterTable
+-- Filled in on startup, where DELETED placeholders of moved instances are paired up
+ALTER TABLE "TaskInstance" ADD COLUMN "occurrenceDate" DATETIME;
+
+-- DropIndex
+DROP INDEX "TaskInstance_templateId_date_dueTime_idx";
+
+-- CreateIndex
+CREATE INDEX "TaskInstance_templateId_occurrenceDate_dueTime_idx" ON "TaskInstance"("templateId", "occurrenceDate", "dueTime");
@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "TemplateRevision" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "templateId" TEXT NOT NULL,
+    "effectiveFrom" DATETIME NOT NULL,
+    "schedule" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "TemplateRevision_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "TaskTemplate" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TemplateRevision_templateId_effectiveFrom_key" ON "TemplateRevision"("templateId", "effectiveFrom");
@@ -9,13 +9,17 @@ import { existsSync } from 'fs';
 
 import { ensureDatabase, prisma } from './lib/db.js';
 import { initializeAuth } from './lib/auth.js';
+import { initializeTimezone, onTimezoneChange } from './lib/timezone.js';
+import { migrateMovePlaceholders } from './lib/placeholders.js';
 import { templateRoutes } from './routes/templates.js';
 import { instanceRoutes } from './routes/instances.js';
 import { authRoutes } from './routes/auth.js';
 import { settingsRoutes } from './routes/settings.js';
-import { processFailedInstances, generateInstancesForRange } from './lib/instance-generator.js';
-import { getToday, getTomorrow } from './lib/scheduler.js';
-import { addMonths } from 'date-fns';
+import { holidayRoutes } from './routes/holidays.js';
+import { awayPeriodRoutes } from './routes/away-periods.js';
+import { processFailedInstances, collapseMissedInstances, rollForwardMissedInstances, generateThroughHorizon, archiveEndedTemplates, resumePausedTemplates } from './lib/instance-generator.js';
+import { getToday, getTomorrow, toUTC } from './lib/scheduler.js';
+import { addDays, addMinutes } from 'date-fns';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -23,6 +27,9 @@ const __dirname = dirname(__filename);
 const PORT = parseInt(process.env.APP_PORT || '3000', 10);
 const SESSION_SECRET = process.env.SESSION_SECRET || 'change-me-in-production-please-32-chars';
 
+// Zoned templates and grace periods run out at other times than midnight
+const MISSED_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
 async function buildServer() {
   const fastify = Fastify({
     logger: {
@@ -79,6 +86,8 @@ async function buildServer() {
     await api.register(templateRoutes);
     await api.register(instanceRoutes);
     await api.register(settingsRoutes);
+    await api.register(holidayRoutes);
+    await api.register(awayPeriodRoutes);
   }, { prefix: '/api' });
 
   // Serve static frontend files in production
@@ -104,18 +113,39 @@ async function buildServer() {
 async function runDailyJob() {
   console.log('Running daily job: Processing failed instances and generating new ones...');
   try {
+    const resumedCount = await resumePausedTemplates();
+    console.log(`Resumed ${resumedCount} paused templates`);
+
     const failedCount = await processFailedInstances();
     console.log(`Marked ${failedCount} instances as failed`);
 
-    const today = getToday();
-    const endDate = addMonths(today, 2);
-    const generated = await generateInstancesForRange(today, endDate);
+    const archivedCount = await archiveEndedTemplates();
+    console.log(`Archived ${archivedCount} ended templates`);
+
+    const generated = await generateThroughHorizon();
     console.log(`Generated ${generated.length} new instances`);
+
+    const collapsedCount = await collapseMissedInstances();
+    console.log(`Collapsed ${collapsedCount} missed occurrences`);
+
+    const rolledCount = await rollForwardMissedInstances();
+    console.log(`Rolled ${rolledCount} missed instances forward`);
   } catch (error) {
     console.error('Daily job failed:', error);
   }
 }
 
+// Reads don't process missed instances, so they are also checked between daily runs
+async function runMissedCheck() {
+  try {
+    await processFailedInstances();
+    await collapseMissedInstances();
+    await rollForwardMissedInstances();
+  } catch (error) {
+    console.error('Missed instance check failed:', error);
+  }
+}
+
 async function main() {
   try {
     // Initialize database
@@ -124,23 +154,28 @@ async function main() {
     // Initialize auth (create default password if not exists)
     await initializeAuth();
 
+    // Load the configured timezone (migrates dates on first start)
+    await initializeTimezone();
+
+    // Moved instances used to leave DELETED placeholders behind
+    await migrateMovePlaceholders();
+
     // Build and start server
     const fastify = await buildServer();
 
     // Run initial job
     await runDailyJob();
 
-    // Schedule daily job (every day at 00:05)
+    // Schedule daily job (every day at 00:05 in the configured timezone)
+    let dailyJobTimer: NodeJS.Timeout | undefined;
     const scheduleNextRun = () => {
-      const now = new Date();
-      const next = new Date(now);
-      next.setDate(next.getDate() + 1);
-      next.setHours(0, 5, 0, 0);
+      clearTimeout(dailyJobTimer);
 
-      const msUntilNext = next.getTime() - now.getTime();
+      const next = toUTC(addMinutes(addDays(getToday(), 1), 5));
+      const msUntilNext = next.getTime() - Date.now();
       console.log(`Next daily job scheduled in ${Math.round(msUntilNext / 1000 / 60)} minutes`);
 
-      setTimeout(async () => {
+      dailyJobTimer = setTimeout(async () => {
         await runDailyJob();
         scheduleNextRun();
       }, msUntilNext);
@@ -148,6 +183,11 @@ async function main() {
 
     scheduleNextRun();
 
+    // Midnight moves with the timezone
+    onTimezoneChange(scheduleNextRun);
+
+    setInterval(runMissedCheck, MISSED_CHECK_INTERVAL_MS);
+
     // Start server
     await fastify.listen({ port: PORT, host: '0.0.0.0' });
     console.log(`Recury API running on http://0.0.0.0:${PORT}`);
@@ -0,0 +1,73 @@
+import { prisma } from './db.js';
+import { addDays, isAfter, isBefore, max } from 'date-fns';
+import { toUTC, toZoned } from './scheduler.js';
+
+// Stored dates (local 00:00 in UTC) of the first and last away day
+export interface AwayRange {
+  startDate: Date;
+  endDate: Date;
+}
+
+export async function getAwayPeriods(): Promise<AwayRange[]> {
+  return prisma.awayPeriod.findMany({
+    select: { startDate: true, endDate: true },
+    orderBy: { startDate: 'asc' },
+  });
+}
+
+// date is a stored instance date
+export function isAwayOn(periods: readonly AwayRange[], date: Date): boolean {
+  return periods.some(period => !isBefore(date, period.startDate) && !isAfter(date, period.endDate));
+}
+
+// First day at or after the zoned day that is not inside an away period
+export function getFirstDayBack(periods: readonly AwayRange[], day: Date): Date {
+  let result = day;
+  // Periods are sorted by start, so adjacent ones are passed in a single sweep
+  for (const period of periods) {
+    if (isAwayOn([period], toUTC(result))) {
+      result = addDays(toZoned(period.endDate), 1);
+    }
+  }
+  return result;
+}
+
+// Open (and already failed) instances inside a period don't count as missed
+export async function skipAwayInstances(period: AwayRange, before?: Date): Promise<number> {
+  const result = await prisma.taskInstance.updateMany({
+    where: {
+      status: { in: before ? ['OPEN'] : ['OPEN', 'FAILED'] },
+      date: {
+        gte: period.startDate,
+        lte: period.endDate,
+        ...(before && { lt: before }),
+      },
+    },
+    data: { status: 'SKIPPED' },
+  });
+  return result.count;
+}
+
+// Reopens skipped instances from today on after a period was removed; days
+// still covered by another period stay skipped. Completion-relative series
+// already scheduled their follow-up after the period and are left alone.
+export async function restoreAwayInstances(period: AwayRange, today: Date): Promise<void> {
+  const from = max([period.startDate, today]);
+  if (isAfter(from, period.endDate)) return;
+
+  const remaining = await getAwayPeriods();
+  const skipped = await prisma.taskInstance.findMany({
+    where: {
+      status: 'SKIPPED',
+      date: { gte: from, lte: period.endDate },
+      template: { scheduleType: { not: 'AFTER_COMPLETION' } },
+    },
+    select: { id: true, date: true },
+  });
+
+  const reopen = skipped.filter(instance => !isAwayOn(remaining, instance.date));
+  await prisma.taskInstance.updateMany({
+    where: { id: { in: reopen.map(instance => instance.id) } },
+    data: { status: 'OPEN' },
+  });
+}
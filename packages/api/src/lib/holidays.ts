@@ -0,0 +1,135 @@
+import { addDays, getDay, format } from 'date-fns';
+
+// Built-in holiday calendars. All rules are bundled here - no network lookups.
+// CUSTOM refers to the app-wide list maintained in the Holiday table.
+export const HOLIDAY_CALENDARS = [
+  'DE',
+  'DE-BW',
+  'DE-BY',
+  'DE-BE',
+  'DE-BB',
+  'DE-HB',
+  'DE-HH',
+  'DE-HE',
+  'DE-MV',
+  'DE-NI',
+  'DE-NW',
+  'DE-RP',
+  'DE-SL',
+  'DE-SN',
+  'DE-ST',
+  'DE-SH',
+  'DE-TH',
+  'CUSTOM',
+] as const;
+
+export type HolidayCalendar = typeof HOLIDAY_CALENDARS[number];
+
+type HolidayDate =
+  | { type: 'FIXED'; month: number; day: number } // month 1-12
+  | { type: 'EASTER'; offset: number } // days relative to Easter Sunday
+  | { type: 'REPENTANCE_DAY' }; // Buß- und Bettag: Wednesday before November 23
+
+interface HolidayDefinition {
+  name: string;
+  date: HolidayDate;
+  states: string[] | 'ALL'; // State codes without the "DE-" prefix
+  since?: number; // First year the holiday applies
+}
+
+const GERMAN_HOLIDAYS: HolidayDefinition[] = [
+  { name: 'Neujahr', date: { type: 'FIXED', month: 1, day: 1 }, states: 'ALL' },
+  { name: 'Heilige Drei Könige', date: { type: 'FIXED', month: 1, day: 6 }, states: ['BW', 'BY', 'ST'] },
+  { name: 'Internationaler Frauentag', date: { type: 'FIXED', month: 3, day: 8 }, states: ['BE'], since: 2019 },
+  { name: 'Internationaler Frauentag', date: { type: 'FIXED', month: 3, day: 8 }, states: ['MV'], since: 2023 },
+  { name: 'Karfreitag', date: { type: 'EASTER', offset: -2 }, states: 'ALL' },
+  { name: 'Ostersonntag', date: { type: 'EASTER', offset: 0 }, states: ['BB'] },
+  { name: 'Ostermontag', date: { type: 'EASTER', offset: 1 }, states: 'ALL' },
+  { name: 'Tag der Arbeit', date: { type: 'FIXED', month: 5, day: 1 }, states: 'ALL' },
+  { name: 'Christi Himmelfahrt', date: { type: 'EASTER', offset: 39 }, states: 'ALL' },
+  { name: 'Pfingstsonntag', date: { type: 'EASTER', offset: 49 }, states: ['BB'] },
+  { name: 'Pfingstmontag', date: { type: 'EASTER', offset: 50 }, states: 'ALL' },
+  { name: 'Fronleichnam', date: { type: 'EASTER', offset: 60 }, states: ['BW', 'BY', 'HE', 'NW', 'RP', 'SL'] },
+  { name: 'Mariä Himmelfahrt', date: { type: 'FIXED', month: 8, day: 15 }, states: ['SL'] },
+  { name: 'Weltkindertag', date: { type: 'FIXED', month: 9, day: 20 }, states: ['TH'], since: 2019 },
+  { name: 'Tag der Deutschen Einheit', date: { type: 'FIXED', month: 10, day: 3 }, states: 'ALL' },
+  { name: 'Reformationstag', date: { type: 'FIXED', month: 10, day: 31 }, states: ['BB', 'MV', 'SN', 'ST', 'TH'] },
+  { name: 'Reformationstag', date: { type: 'FIXED', month: 10, day: 31 }, states: ['HB', 'HH', 'NI', 'SH'], since: 2018 },
+  { name: 'Allerheiligen', date: { type: 'FIXED', month: 11, day: 1 }, states: ['BW', 'BY', 'NW', 'RP', 'SL'] },
+  { name: 'Buß- und Bettag', date: { type: 'REPENTANCE_DAY' }, states: ['SN'] },
+  { name: '1. Weihnachtstag', date: { type: 'FIXED', month: 12, day: 25 }, states: 'ALL' },
+  { name: '2. Weihnachtstag', date: { type: 'FIXED', month: 12, day: 26 }, states: 'ALL' },
+];
+
+// Anonymous Gregorian algorithm (Meeus/Jones/Butcher)
+function getEasterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+}
+
+function resolveHolidayDate(date: HolidayDate, year: number): Date {
+  switch (date.type) {
+    case 'FIXED':
+      return new Date(year, date.month - 1, date.day);
+    case 'EASTER':
+      return addDays(getEasterSunday(year), date.offset);
+    case 'REPENTANCE_DAY': {
+      // Last Wednesday before November 23
+      const nov22 = new Date(year, 10, 22);
+      return addDays(nov22, -((getDay(nov22) - 3 + 7) % 7));
+    }
+  }
+}
+
+const holidayCache = new Map<string, Map<string, string>>();
+
+// Returns the built-in holidays of a calendar for one year as dateKey -> name
+export function getBuiltInHolidays(calendar: HolidayCalendar, year: number): Map<string, string> {
+  const cacheKey = `${calendar}:${year}`;
+  const cached = holidayCache.get(cacheKey);
+  if (cached) return cached;
+
+  const holidays = new Map<string, string>();
+  if (calendar !== 'CUSTOM') {
+    const state = calendar === 'DE' ? null : calendar.slice(3);
+
+    for (const holiday of GERMAN_HOLIDAYS) {
+      if (holiday.since && year < holiday.since) continue;
+      // The nationwide calendar only contains holidays shared by all states
+      if (holiday.states !== 'ALL' && (!state || !holiday.states.includes(state))) continue;
+
+      holidays.set(format(resolveHolidayDate(holiday.date, year), 'yyyy-MM-dd'), holiday.name);
+    }
+  }
+
+  holidayCache.set(cacheKey, holidays);
+  return holidays;
+}
+
+// customHolidays: dateKeys of the app-wide custom list, only used for CUSTOM
+export function isHoliday(
+  calendar: HolidayCalendar,
+  date: Date,
+  customHolidays?: ReadonlySet<string>
+): boolean {
+  const key = format(date, 'yyyy-MM-dd');
+
+  if (calendar === 'CUSTOM') {
+    return customHolidays?.has(key) ?? false;
+  }
+
+  return getBuiltInHolidays(calendar, date.getFullYear()).has(key);
+}
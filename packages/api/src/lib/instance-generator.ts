@@ -1,66 +1,744 @@
 import { prisma } from './db.js';
-import { getOccurrencesInRange, getToday, toUTC, toZoned, formatDateKey } from './scheduler.js';
-import { addDays, isBefore } from 'date-fns';
-import type { TaskTemplate, TaskInstance } from '@prisma/client';
+import { getOccurrencesInRange, getNextRelativeOccurrence, getRotationWeekIndex, parseRotationWeeks, getSeriesEnd, moveIntoSeason, parseDueTimes, getNow, getToday, getTemplateToday, getMissCutoff, getFailDeadline, getTemplateOn, toAppTimezone, toUTC, toZoned, formatDateKey, type TemplateWithExceptions } from './scheduler.js';
+import { addDays, subDays, addMonths, differenceInCalendarDays, format, isAfter, isBefore, parseISO, startOfDay } from 'date-fns';
+import type { Prisma, TaskTemplate, TaskInstance } from '@prisma/client';
+import { getAwayPeriods, getFirstDayBack, isAwayOn, skipAwayInstances, type AwayRange } from './away-periods.js';
 
+// A local day/time in another timezone is at most two days off in the app timezone
+const TIMEZONE_SHIFT_DAYS = 2;
+
+// Instances are stored this far ahead; reads only query what is stored
+export const GENERATION_HORIZON_MONTHS = 2;
+
+export function getGenerationHorizon(): Date {
+  return addMonths(getToday(), GENERATION_HORIZON_MONTHS);
+}
+
+export async function getCustomHolidayKeys(): Promise<Set<string>> {
+  const holidays = await prisma.holiday.findMany({ select: { date: true } });
+  return new Set(holidays.map(h => formatDateKey(toZoned(h.date))));
+}
+
+// Rows stored before occurrenceDate existed have none until migrateMovePlaceholders
+// ran at startup; their date is the scheduled day
+export function getOccurrenceDate(instance: Pick<TaskInstance, 'date' | 'occurrenceDate'>): Date {
+  return instance.occurrenceDate ?? instance.date;
+}
+
+function occurrenceDateWhere(filter: Date | Prisma.DateTimeFilter): Prisma.TaskInstanceWhereInput {
+  return {
+    OR: [
+      { occurrenceDate: filter },
+      { occurrenceDate: null, date: filter },
+    ],
+  };
+}
+
+// Active templates plus the custom holiday list and away periods, loaded once instead of per template
+async function loadGenerationInput() {
+  const templates = await prisma.taskTemplate.findMany({
+    where: { isActive: true, pausedAt: null },
+    include: { exceptions: true, revisions: true },
+  });
+
+  const customHolidays = templates.some(t => t.holidayCalendar === 'CUSTOM')
+    ? await getCustomHolidayKeys()
+    : undefined;
+  const awayPeriods = await getAwayPeriods();
+
+  return { templates, customHolidays, awayPeriods };
+}
+
+// Fills in a range for all templates regardless of their watermarks (rebuild)
 export async function generateInstancesForRange(
   startDate: Date,
   endDate: Date
 ): Promise<TaskInstance[]> {
-  const templates = await prisma.taskTemplate.findMany({
-    where: { isActive: true },
-  });
+  const { templates, customHolidays, awayPeriods } = await loadGenerationInput();
+  const generatedInstances: TaskInstance[] = [];
 
+  for (const template of templates) {
+    const instances = await generateInstancesForTemplate(template, startDate, endDate, customHolidays, awayPeriods);
+    generatedInstances.push(...instances);
+  }
+
+  return generatedInstances;
+}
+
+// Moves every active template's watermark up to the generation horizon (daily job)
+export async function generateThroughHorizon(): Promise<TaskInstance[]> {
+  const { templates, customHolidays, awayPeriods } = await loadGenerationInput();
+  const horizon = getGenerationHorizon();
   const generatedInstances: TaskInstance[] = [];
 
   for (const template of templates) {
-    const instances = await generateInstancesForTemplate(template, startDate, endDate);
+    const instances = await advanceGeneration(template, horizon, customHolidays, awayPeriods);
     generatedInstances.push(...instances);
   }
 
   return generatedInstances;
 }
 
+// Generates a template's instances after its generatedThrough watermark (never
+// before today) up to the given day and moves the watermark there
+export async function advanceGeneration(
+  template: TemplateWithExceptions,
+  through: Date,
+  customHolidays?: ReadonlySet<string>,
+  awayPeriods?: readonly AwayRange[]
+): Promise<TaskInstance[]> {
+  if (!template.isActive || template.pausedAt) {
+    return [];
+  }
+
+  let from = getToday();
+  if (template.generatedThrough) {
+    const next = addDays(toZoned(template.generatedThrough), 1);
+    if (isAfter(next, from)) from = next;
+  }
+
+  if (isAfter(from, through)) {
+    return [];
+  }
+
+  const instances = await generateInstancesForTemplate(template, from, through, customHolidays, awayPeriods);
+
+  // A collapsing series with an open instance continues after it once that is done
+  let generatedThrough = toUTC(through);
+  if (template.carryPolicy === 'CARRY_OVER_COLLAPSE' && await hasOpenInstance(template)) {
+    const created = instances.map(instance => getOccurrenceDate(instance).getTime());
+    if (created.length === 0) return instances;
+    generatedThrough = new Date(Math.max(...created));
+  }
+
+  await prisma.taskTemplate.update({
+    where: { id: template.id },
+    data: { generatedThrough },
+  });
+
+  return instances;
+}
+
+async function hasOpenInstance(template: TaskTemplate): Promise<boolean> {
+  const openCount = await prisma.taskInstance.count({ where: { templateId: template.id, status: 'OPEN' } });
+  return openCount > 0;
+}
+
 export async function generateInstancesForTemplate(
-  template: TaskTemplate,
+  template: TemplateWithExceptions,
   startDate: Date,
-  endDate: Date
+  endDate: Date,
+  customHolidays?: ReadonlySet<string>,
+  awayPeriods?: readonly AwayRange[]
 ): Promise<TaskInstance[]> {
-  const occurrences = getOccurrencesInRange(template, startDate, endDate);
-  const generatedInstances: TaskInstance[] = [];
+  // Nothing new while paused, see resumeTemplate
+  if (template.pausedAt) {
+    return [];
+  }
+
+  // Completion-relative templates keep a single open instance, created on demand
+  if (template.scheduleType === 'AFTER_COMPLETION') {
+    const instance = await generateRelativeInstance(template, endDate, awayPeriods);
+    return instance ? [instance] : [];
+  }
+
+  // Collapsing series also keep a single open instance, see collapseMissedInstances
+  const isCollapsing = template.carryPolicy === 'CARRY_OVER_COLLAPSE';
+  if (isCollapsing && await hasOpenInstance(template)) {
+    return [];
+  }
+
+  awayPeriods ??= await getAwayPeriods();
+
+  if (template.holidayCalendar === 'CUSTOM' && !customHolidays) {
+    customHolidays = await getCustomHolidayKeys();
+  }
+
+  if (!template.exceptions || !template.revisions) {
+    template = {
+      ...template,
+      exceptions: template.exceptions ?? await prisma.scheduleException.findMany({ where: { templateId: template.id } }),
+      revisions: template.revisions ?? await prisma.templateRevision.findMany({ where: { templateId: template.id } }),
+    };
+  }
+
+  // Templates in another timezone may show up on neighbouring days of the app
+  if (template.timezone) {
+    startDate = subDays(startDate, TIMEZONE_SHIFT_DAYS);
+    endDate = addDays(endDate, TIMEZONE_SHIFT_DAYS);
+  }
+
+  const occurrences = getOccurrencesInRange(template, startDate, endDate, customHolidays);
+  if (occurrences.length === 0) {
+    return [];
+  }
+
+  // Occurrences already stored for the range, in one query (also moved or deleted ones)
+  const existing = await prisma.taskInstance.findMany({
+    where: {
+      templateId: template.id,
+      ...occurrenceDateWhere({
+        gte: toUTC(occurrences[0]),
+        lte: toUTC(occurrences[occurrences.length - 1]),
+      }),
+    },
+    select: { date: true, occurrenceDate: true, dueTime: true },
+  });
+  const slotKey = (date: Date, dueTime: string | null) => `${date.getTime()}|${dueTime ?? ''}`;
+  const existingSlots = new Set(existing.map(instance => slotKey(getOccurrenceDate(instance), instance.dueTime)));
+
+  const data: Prisma.TaskInstanceCreateManyInput[] = [];
 
   for (const occurrence of occurrences) {
-    // occurrence is already a local start-of-day from getOccurrencesInRange
-    // Convert directly to UTC without re-truncating to avoid shifting back a day
-    const dateUTC = toUTC(occurrence);
+    const version = getTemplateOn(template, occurrence);
+    for (const dueTime of getSlots(version)) {
+      // Only create a new instance if none exists (we don't auto-generate duplicates)
+      if (!existingSlots.has(slotKey(toUTC(occurrence), dueTime))) {
+        data.push(buildOccurrenceData(version, occurrence, dueTime, awayPeriods));
+      }
+    }
+  }
+
+  // Up to the next open one (occurrences while away come before it as SKIPPED)
+  if (isCollapsing) {
+    const next = data.findIndex(instance => instance.status === 'OPEN');
+    if (next >= 0) data.splice(next + 1);
+  }
+
+  if (data.length === 0) {
+    return [];
+  }
+
+  return prisma.taskInstance.createManyAndReturn({ data });
+}
+
+// One instance per due time slot (a single untimed instance if there are none)
+function getSlots(template: TaskTemplate): (string | null)[] {
+  const dueTimes = parseDueTimes(template.dueTime);
+  return dueTimes.length > 0 ? dueTimes : [null];
+}
+
+// Column values of a generated instance for an occurrence and time slot
+function buildOccurrenceData(
+  template: TaskTemplate,
+  occurrence: Date,
+  dueTime: string | null,
+  awayPeriods: readonly AwayRange[]
+) {
+  // occurrence is already a local start-of-day from getOccurrencesInRange
+  // Convert directly to UTC without re-truncating to avoid shifting back a day
+  const date = toUTC(occurrence);
+
+  return {
+    templateId: template.id,
+    date,
+    occurrenceDate: date,
+    dueTime,
+    rotationWeek: template.scheduleType === 'ROTATION' ? getRotationWeekIndex(template, occurrence) : null,
+    // Occurrences while away are recorded, but neither stack up nor fail
+    status: isAwayOn(awayPeriods, date) ? 'SKIPPED' : 'OPEN',
+  };
+}
+
+// Occurrences past the watermark are not stored; they are listed under a
+// synthetic id (template, day and slot) and stored once someone acts on them
+const VIRTUAL_ID_PREFIX = 'virtual';
+
+function getVirtualId(templateId: string, occurrence: Date, dueTime: string | null): string {
+  return [VIRTUAL_ID_PREFIX, templateId, formatDateKey(occurrence), dueTime?.replace(':', '') ?? ''].join('_');
+}
+
+export function parseVirtualId(id: string): { templateId: string; occurrence: Date; dueTime: string | null } | null {
+  const [prefix, templateId, dateKey, time] = id.split('_');
+  if (prefix !== VIRTUAL_ID_PREFIX || !templateId || !/^\d{4}-\d{2}-\d{2}$/.test(dateKey ?? '') || !/^(\d{4})?$/.test(time ?? '')) {
+    return null;
+  }
+
+  return {
+    templateId,
+    occurrence: startOfDay(parseISO(dateKey)),
+    dueTime: time ? `${time.slice(0, 2)}:${time.slice(2)}` : null,
+  };
+}
+
+// Unstored occurrences in a range of days, shaped like stored instances
+async function getVirtualInstances(
+  startDate: Date,
+  endDate: Date
+): Promise<(TaskInstance & { template: TaskTemplate })[]> {
+  const { templates, customHolidays, awayPeriods } = await loadGenerationInput();
+  const today = getToday();
+
+  // Occurrences stored for the range, also moved or deleted ones
+  const stored = await prisma.taskInstance.findMany({
+    where: occurrenceDateWhere({
+      gte: toUTC(subDays(startDate, TIMEZONE_SHIFT_DAYS)),
+      lte: toUTC(addDays(endDate, TIMEZONE_SHIFT_DAYS)),
+    }),
+    select: { templateId: true, date: true, occurrenceDate: true, dueTime: true },
+  });
+  const slotKey = (templateId: string, date: Date, dueTime: string | null) => `${templateId}|${date.getTime()}|${dueTime ?? ''}`;
+  const storedSlots = new Set(stored.map(instance => slotKey(instance.templateId, getOccurrenceDate(instance), instance.dueTime)));
+
+  const virtualInstances: (TaskInstance & { template: TaskTemplate })[] = [];
+
+  for (const template of templates) {
+    // Completion-relative series depend on when the open instance is done
+    if (template.scheduleType === 'AFTER_COMPLETION') continue;
+
+    // Same range as generateInstancesForTemplate, but only days past the watermark
+    let from = template.timezone ? subDays(startDate, TIMEZONE_SHIFT_DAYS) : startDate;
+    const to = template.timezone ? addDays(endDate, TIMEZONE_SHIFT_DAYS) : endDate;
+    const firstUnstored = template.generatedThrough ? addDays(toZoned(template.generatedThrough), 1) : today;
+    if (isBefore(from, firstUnstored)) from = firstUnstored;
+    if (isBefore(from, today)) from = today;
+    if (isAfter(from, to)) continue;
+
+    for (const occurrence of getOccurrencesInRange(template, from, to, customHolidays)) {
+      const version = getTemplateOn(template, occurrence);
+      for (const dueTime of getSlots(version)) {
+        if (storedSlots.has(slotKey(template.id, toUTC(occurrence), dueTime))) continue;
+
+        virtualInstances.push({
+          ...buildOccurrenceData(version, occurrence, dueTime, awayPeriods),
+          id: getVirtualId(template.id, occurrence, dueTime),
+          completedAt: null,
+          createdAt: new Date(),
+          customTitle: null,
+          customNotes: null,
+          absorbedCount: 0,
+          rolledCount: 0,
+          template,
+        });
+      }
+    }
+  }
+
+  return virtualInstances;
+}
+
+// Instance by id for the instance routes; a virtual id gets its row created (if it
+// names a real occurrence of the template past the watermark) unless create is false
+export async function findInstance(
+  id: string,
+  { create = true }: { create?: boolean } = {}
+): Promise<(TaskInstance & { template: TaskTemplate }) | null> {
+  const virtual = parseVirtualId(id);
+  if (!virtual) {
+    return prisma.taskInstance.findUnique({
+      where: { id },
+      include: { template: true },
+    });
+  }
+
+  const { templateId, occurrence, dueTime } = virtual;
+
+  // Stored in the meantime, e.g. because the watermark moved past it
+  const existing = await prisma.taskInstance.findFirst({
+    where: { templateId, dueTime, ...occurrenceDateWhere(toUTC(occurrence)) },
+    include: { template: true },
+  });
+  if (existing || !create) {
+    return existing;
+  }
+
+  const template = await prisma.taskTemplate.findUnique({
+    where: { id: templateId },
+    include: { exceptions: true, revisions: true },
+  });
+  if (!template || !template.isActive || template.pausedAt || template.scheduleType === 'AFTER_COMPLETION') {
+    return null;
+  }
+
+  // Days up to the watermark were generated (and possibly deleted since), and
+  // past days are no longer listed as virtual
+  const today = getToday();
+  const firstUnstored = template.generatedThrough ? addDays(toZoned(template.generatedThrough), 1) : today;
+  if (isBefore(occurrence, firstUnstored) || isBefore(occurrence, today)) {
+    return null;
+  }
+
+  const customHolidays = template.holidayCalendar === 'CUSTOM' ? await getCustomHolidayKeys() : undefined;
+  const occurs = getOccurrencesInRange(template, occurrence, occurrence, customHolidays).length > 0;
+  const version = getTemplateOn(template, occurrence);
+  if (!occurs || !getSlots(version).includes(dueTime)) {
+    return null;
+  }
+
+  return prisma.taskInstance.create({
+    data: buildOccurrenceData(version, occurrence, dueTime, await getAwayPeriods()),
+    include: { template: true },
+  });
+}
+
+// Brings stored OPEN (and SKIPPED) instances from today on in line with a changed
+// schedule: occurrences that remain keep their row (and custom title and notes), the
+// others are removed and the new ones generated. DONE and FAILED stay as history, as do
+// moved instances and collapsed or rolled ones that stand in for missed occurrences.
+export async function regenerateFutureInstances(template: TaskTemplate): Promise<void> {
+  const from = getToday();
+  const current = await prisma.taskTemplate.findUniqueOrThrow({
+    where: { id: template.id },
+    include: { exceptions: true, revisions: true },
+  });
+
+  const stored = await prisma.taskInstance.findMany({
+    where: {
+      templateId: template.id,
+      date: { gte: toUTC(from) },
+      status: { in: ['OPEN', 'SKIPPED'] },
+      absorbedCount: 0,
+      rolledCount: 0,
+    },
+  });
+  const isMoved = (instance: TaskInstance) => getOccurrenceDate(instance).getTime() !== instance.date.getTime();
+  const unmoved = stored.filter(instance => !isMoved(instance));
+
+  // Rotation week per remaining slot; completion-relative series start over instead
+  const slotKey = (date: Date, dueTime: string | null) => `${date.getTime()}|${dueTime ?? ''}`;
+  const scheduled = new Map<string, number | null>();
+  const keepsInstances = current.isActive && !current.pausedAt && current.scheduleType !== 'AFTER_COMPLETION';
+  if (keepsInstances && unmoved.length > 0) {
+    const customHolidays = current.holidayCalendar === 'CUSTOM' ? await getCustomHolidayKeys() : undefined;
+    const last = toZoned(new Date(Math.max(...unmoved.map(instance => instance.date.getTime()))));
+    for (const occurrence of getOccurrencesInRange(current, from, last, customHolidays)) {
+      const version = getTemplateOn(current, occurrence);
+      for (const dueTime of getSlots(version)) {
+        const slot = buildOccurrenceData(version, occurrence, dueTime, []);
+        scheduled.set(slotKey(slot.date, slot.dueTime), slot.rotationWeek);
+      }
+    }
+  }
+
+  const obsolete = stored.filter(instance =>
+    !keepsInstances || (!isMoved(instance) && !scheduled.has(slotKey(instance.date, instance.dueTime)))
+  );
+  const renumbered = unmoved.filter(instance => {
+    const rotationWeek = scheduled.get(slotKey(instance.date, instance.dueTime));
+    return rotationWeek !== undefined && rotationWeek !== instance.rotationWeek;
+  });
+
+  await prisma.$transaction([
+    prisma.taskInstance.deleteMany({ where: { id: { in: obsolete.map(instance => instance.id) } } }),
+    ...renumbered.map(instance =>
+      prisma.taskInstance.update({
+        where: { id: instance.id },
+        data: { rotationWeek: scheduled.get(slotKey(instance.date, instance.dueTime)) },
+      })
+    ),
+  ]);
+
+  // Generate again from today on (an older watermark stays, so no day is left out)
+  const dayBefore = toUTC(subDays(from, 1));
+  const generatedThrough = current.generatedThrough && isBefore(current.generatedThrough, dayBefore)
+    ? current.generatedThrough
+    : dayBefore;
+  const reset = await prisma.taskTemplate.update({
+    where: { id: template.id },
+    data: { generatedThrough },
+    include: { exceptions: true, revisions: true },
+  });
+  await advanceGeneration(reset, getGenerationHorizon());
+}
+
+export async function generateRelativeInstance(
+  template: TaskTemplate,
+  endDate?: Date,
+  awayPeriods?: readonly AwayRange[]
+): Promise<TaskInstance | null> {
+  if (template.pausedAt) {
+    return null;
+  }
+
+  // Only one open instance at a time - the next one follows its completion
+  const openInstance = await prisma.taskInstance.findFirst({
+    where: {
+      templateId: template.id,
+      status: 'OPEN',
+    },
+  });
+
+  if (openInstance) {
+    return null;
+  }
+
+  const lastDone = await prisma.taskInstance.findFirst({
+    where: {
+      templateId: template.id,
+      status: 'DONE',
+      completedAt: { not: null },
+    },
+    orderBy: { completedAt: 'desc' },
+  });
+
+  // A failed, deleted or skipped instance also moves the series on, counted from its due date
+  const lastMissed = await prisma.taskInstance.findFirst({
+    where: {
+      templateId: template.id,
+      status: { in: ['FAILED', 'DELETED', 'SKIPPED'] },
+    },
+    orderBy: { date: 'desc' },
+  });
+
+  let reference: Date | null = lastDone?.completedAt ? startOfDay(toZoned(lastDone.completedAt)) : null;
+  if (lastMissed) {
+    const missedOn = toZoned(lastMissed.date);
+    if (!reference || isAfter(missedOn, reference)) {
+      reference = missedOn;
+    }
+  }
+
+  const today = getTemplateToday(template);
+  let nextDate = getNextRelativeOccurrence(template, reference);
+
+  // Never schedule the follow-up in the past
+  if (isBefore(nextDate, today)) {
+    nextDate = today;
+  }
+
+  // Out of season the follow-up waits for the next window, while away until the return
+  nextDate = moveIntoSeason(template, nextDate);
+  nextDate = getFirstDayBack(awayPeriods ?? await getAwayPeriods(), nextDate);
+
+  if (endDate && isAfter(nextDate, startOfDay(endDate))) {
+    return null;
+  }
+
+  // The series is over after its end date or once all occurrences were scheduled
+  if (template.endDate && isAfter(nextDate, startOfDay(toZoned(template.endDate)))) {
+    return null;
+  }
+  if (template.maxOccurrences && await countRelativeOccurrences(template) >= template.maxOccurrences) {
+    return null;
+  }
+
+  return prisma.taskInstance.create({
+    data: {
+      templateId: template.id,
+      date: toUTC(nextDate),
+      occurrenceDate: toUTC(nextDate),
+      // Completion-relative series have a single instance, due at the first slot
+      dueTime: parseDueTimes(template.dueTime)[0] ?? null,
+      status: 'OPEN',
+    },
+  });
+}
+
+// Deleted and skipped instances don't use up an occurrence
+function countRelativeOccurrences(template: TaskTemplate): Promise<number> {
+  return prisma.taskInstance.count({
+    where: {
+      templateId: template.id,
+      status: { notIn: ['DELETED', 'SKIPPED'] },
+    },
+  });
+}
+
+async function hasSeriesEnded(
+  template: TemplateWithExceptions,
+  today: Date,
+  customHolidays?: ReadonlySet<string>
+): Promise<boolean> {
+  if (template.scheduleType === 'AFTER_COMPLETION') {
+    // Ended once nothing is left open and no follow-up can be scheduled
+    const openCount = await prisma.taskInstance.count({
+      where: { templateId: template.id, status: 'OPEN' },
+    });
+    if (openCount > 0) return false;
+
+    if (template.endDate && isBefore(startOfDay(toZoned(template.endDate)), today)) return true;
+    return !!template.maxOccurrences && await countRelativeOccurrences(template) >= template.maxOccurrences;
+  }
+
+  const seriesEnd = getSeriesEnd(template, customHolidays);
+  return !!seriesEnd && isBefore(seriesEnd, today);
+}
+
+// Archives templates whose series ended before today (endDate or maxOccurrences reached)
+export async function archiveEndedTemplates(): Promise<number> {
+  const today = getToday();
+
+  const templates = await prisma.taskTemplate.findMany({
+    where: {
+      isActive: true,
+      OR: [
+        { endDate: { not: null } },
+        { maxOccurrences: { not: null } },
+      ],
+    },
+    include: { revisions: true },
+  });
+
+  const customHolidays = templates.some(t => t.holidayCalendar === 'CUSTOM')
+    ? await getCustomHolidayKeys()
+    : undefined;
+
+  let archivedCount = 0;
+  for (const template of templates) {
+    if (await hasSeriesEnded(template, today, customHolidays)) {
+      await prisma.taskTemplate.update({
+        where: { id: template.id },
+        data: { isActive: false },
+      });
+      archivedCount++;
+    }
+  }
+
+  return archivedCount;
+}
+
+// Pauses a template from today on, optionally until resumeOn (a zoned day)
+export async function pauseTemplate(template: TaskTemplate, resumeOn: Date | null): Promise<TaskTemplate> {
+  return prisma.taskTemplate.update({
+    where: { id: template.id },
+    data: {
+      pausedAt: template.pausedAt ?? toUTC(getToday()),
+      resumeOn: resumeOn ? toUTC(resumeOn) : null,
+    },
+  });
+}
+
+// Drops the open instances that fell due while paused (they were never shown)
+// and fills in the schedule from today on
+export async function resumeTemplate(template: TaskTemplate): Promise<TaskTemplate> {
+  const today = getToday();
 
-    // Check if any instance already exists for this template+date (including DELETED placeholders)
-    const existingInstance = await prisma.taskInstance.findFirst({
+  if (template.pausedAt) {
+    await prisma.taskInstance.deleteMany({
       where: {
         templateId: template.id,
-        date: dateUTC,
+        status: 'OPEN',
+        date: { gte: template.pausedAt, lt: toUTC(today) },
       },
     });
+  }
 
-    // Only create a new instance if none exists (we don't auto-generate duplicates)
-    if (!existingInstance) {
-      const instance = await prisma.taskInstance.create({
-        data: {
-          templateId: template.id,
-          date: dateUTC,
-          status: 'OPEN',
-        },
-      });
-      generatedInstances.push(instance);
-    }
+  const resumed = await prisma.taskTemplate.update({
+    where: { id: template.id },
+    data: { pausedAt: null, resumeOn: null },
+  });
+
+  await advanceGeneration(resumed, getGenerationHorizon());
+
+  return resumed;
+}
+
+// Resumes paused templates whose resume day has come
+export async function resumePausedTemplates(): Promise<number> {
+  const templates = await prisma.taskTemplate.findMany({
+    where: {
+      pausedAt: { not: null },
+      resumeOn: { lte: toUTC(getToday()) },
+    },
+  });
+
+  for (const template of templates) {
+    await resumeTemplate(template);
   }
 
-  return generatedInstances;
+  return templates.length;
+}
+
+// "This and all following": ends a series the day before an instance's occurrence and
+// continues it as a new template with the changes. The instance and all later ones move
+// to the new template; earlier ones stay with the original as its history.
+// Null if the original series has used up its maximum number of occurrences.
+export async function splitSeries(
+  instance: TaskInstance & { template: TaskTemplate },
+  changes: { title?: string; notes?: string | null }
+): Promise<TaskTemplate | null> {
+  const original = await prisma.taskTemplate.findUniqueOrThrow({
+    where: { id: instance.templateId },
+    include: { exceptions: true, revisions: true },
+  });
+  const { id, createdAt, updatedAt, exceptions, revisions, ...fields } = original;
+  const splitDay = getOccurrenceDate(instance);
+  const dayBefore = subDays(toZoned(splitDay), 1);
+
+  // Occurrences before the split count towards the maximum
+  let maxOccurrences = original.maxOccurrences;
+  if (maxOccurrences) {
+    const before = original.scheduleType === 'AFTER_COMPLETION'
+      ? await prisma.taskInstance.count({
+        where: { templateId: id, status: { notIn: ['DELETED', 'SKIPPED'] }, ...occurrenceDateWhere({ lt: splitDay }) },
+      })
+      : getOccurrencesInRange(
+        original,
+        startOfDay(toZoned(original.startDate ?? original.anchorDate ?? createdAt)),
+        dayBefore,
+        original.holidayCalendar === 'CUSTOM' ? await getCustomHolidayKeys() : undefined
+      ).length;
+    if (before >= maxOccurrences) return null;
+    maxOccurrences -= before;
+  }
+
+  // Interval and rotation cycles keep counting from the original start
+  const fork = await prisma.taskTemplate.create({
+    data: {
+      ...fields,
+      title: changes.title ?? original.title,
+      notes: changes.notes !== undefined ? changes.notes : original.notes,
+      startDate: splitDay,
+      anchorDate: original.anchorDate ?? original.startDate,
+      maxOccurrences,
+      // The new series starts unpaused and is generated from today on
+      pausedAt: null,
+      resumeOn: null,
+      generatedThrough: null,
+    },
+  });
+
+  // The fork starts with the revision in force on the split day and takes the later ones
+  const sorted = [...revisions].sort((a, b) => a.effectiveFrom.getTime() - b.effectiveFrom.getTime());
+  const inForce = sorted.filter(revision => !isAfter(revision.effectiveFrom, splitDay)).pop() ?? sorted[0];
+
+  await prisma.$transaction([
+    prisma.taskTemplate.update({
+      where: { id },
+      data: { endDate: toUTC(dayBefore) },
+    }),
+    prisma.taskInstance.updateMany({
+      where: { templateId: id, ...occurrenceDateWhere({ gte: splitDay }) },
+      data: { templateId: fork.id },
+    }),
+    // The changes now come from the template instead of this instance's overrides
+    prisma.taskInstance.update({
+      where: { id: instance.id },
+      data: {
+        customTitle: changes.title !== undefined ? null : undefined,
+        customNotes: changes.notes !== undefined ? null : undefined,
+      },
+    }),
+    prisma.scheduleException.updateMany({
+      where: { templateId: id, date: { gte: splitDay } },
+      data: { templateId: fork.id },
+    }),
+    ...(inForce
+      ? [
+        prisma.templateRevision.create({
+          data: { templateId: fork.id, effectiveFrom: splitDay, schedule: inForce.schedule },
+        }),
+        prisma.templateRevision.updateMany({
+          where: { templateId: id, effectiveFrom: { gt: splitDay } },
+          data: { templateId: fork.id },
+        }),
+      ]
+      : []),
+  ]);
+
+  await advanceGeneration(fork, getGenerationHorizon());
+
+  return fork;
 }
 
 export async function processFailedInstances(): Promise<number> {
   const today = getToday();
 
+  // Missed while away: skipped instead of failed or stacked up as overdue
+  for (const period of await getAwayPeriods()) {
+    await skipAwayInstances(period, toUTC(today));
+  }
+
   // Find all OPEN instances from templates with FAIL_ON_MISS policy
   // where the date is before today
   const failedInstances = await prisma.taskInstance.updateMany({
@@ -71,6 +749,9 @@ export async function processFailedInstances(): Promise<number> {
       },
       template: {
         carryPolicy: 'FAIL_ON_MISS',
+        timezone: null,
+        pausedAt: null,
+        graceHours: null,
       },
     },
     data: {
@@ -78,7 +759,138 @@ export async function processFailedInstances(): Promise<number> {
     },
   });
 
-  return failedInstances.count;
+  // Templates with their own timezone miss a day when it is over in their timezone,
+  // ones with a grace period when that is over too, paused ones only before the
+  // pause (later instances are dropped on resume)
+  const otherTemplates = await prisma.taskTemplate.findMany({
+    where: {
+      carryPolicy: 'FAIL_ON_MISS',
+      OR: [
+        { timezone: { not: null } },
+        { pausedAt: { not: null } },
+        { graceHours: { not: null } },
+      ],
+    },
+  });
+
+  let failedCount = failedInstances.count;
+  for (const template of otherTemplates) {
+    let cutoff = getMissCutoff(template);
+    if (template.pausedAt && isBefore(template.pausedAt, cutoff)) {
+      cutoff = template.pausedAt;
+    }
+
+    const result = await prisma.taskInstance.updateMany({
+      where: {
+        templateId: template.id,
+        status: 'OPEN',
+        date: {
+          lt: cutoff,
+        },
+      },
+      data: {
+        status: 'FAILED',
+      },
+    });
+    failedCount += result.count;
+  }
+
+  return failedCount;
+}
+
+// ROLL_FORWARD quietly moves missed instances on to today, like a snooze
+export async function rollForwardMissedInstances(): Promise<number> {
+  const templates = await prisma.taskTemplate.findMany({
+    where: {
+      carryPolicy: 'ROLL_FORWARD',
+      pausedAt: null,
+    },
+  });
+
+  let rolledCount = 0;
+  for (const template of templates) {
+    const today = toUTC(getTemplateToday(template));
+    const result = await prisma.taskInstance.updateMany({
+      where: {
+        templateId: template.id,
+        status: 'OPEN',
+        date: { lt: today },
+      },
+      data: {
+        date: today,
+        rolledCount: { increment: 1 },
+      },
+    });
+    rolledCount += result.count;
+  }
+
+  return rolledCount;
+}
+
+// CARRY_OVER_COLLAPSE keeps a single open instance for everything missed: once
+// overdue it moves on to today and counts the occurrences that came due meanwhile
+// (these get no instances of their own, see generateInstancesForTemplate)
+export async function collapseMissedInstances(): Promise<number> {
+  const templates = await prisma.taskTemplate.findMany({
+    where: {
+      carryPolicy: 'CARRY_OVER_COLLAPSE',
+      pausedAt: null,
+      // Completion-relative series have a single open instance anyway
+      scheduleType: { not: 'AFTER_COMPLETION' },
+    },
+    include: { exceptions: true, revisions: true },
+  });
+  const customHolidays = templates.some(t => t.holidayCalendar === 'CUSTOM')
+    ? await getCustomHolidayKeys()
+    : undefined;
+  const awayPeriods = await getAwayPeriods();
+
+  let collapsedCount = 0;
+  for (const template of templates) {
+    const today = getTemplateToday(template);
+    const due = await prisma.taskInstance.findMany({
+      where: {
+        templateId: template.id,
+        status: 'OPEN',
+        date: { lte: toUTC(today) },
+      },
+      orderBy: [{ date: 'asc' }, { dueTime: 'asc' }],
+    });
+
+    // Open instances generated before the policy applied are among the counted occurrences
+    const [keeper, ...stacked] = due;
+    if (!keeper || !isBefore(keeper.date, toUTC(today))) continue;
+
+    // Days away don't add up
+    let absorbed = 0;
+    for (const occurrence of getOccurrencesInRange(template, addDays(toZoned(keeper.date), 1), today, customHolidays)) {
+      if (!isAwayOn(awayPeriods, toUTC(occurrence))) {
+        absorbed += getSlots(getTemplateOn(template, occurrence)).length;
+      }
+    }
+
+    // Occurrences up to today are accounted for, generation continues after them
+    const generatedThrough = template.generatedThrough && isAfter(template.generatedThrough, toUTC(today))
+      ? template.generatedThrough
+      : toUTC(today);
+
+    await prisma.$transaction([
+      prisma.taskInstance.deleteMany({
+        where: { id: { in: stacked.map(instance => instance.id) } },
+      }),
+      prisma.taskInstance.update({
+        where: { id: keeper.id },
+        data: { date: toUTC(today), absorbedCount: keeper.absorbedCount + absorbed },
+      }),
+      prisma.taskTemplate.update({
+        where: { id: template.id },
+        data: { generatedThrough },
+      }),
+    ]);
+    collapsedCount += absorbed;
+  }
+
+  return collapsedCount;
 }
 
 export async function getDashboardData() {
@@ -86,132 +898,167 @@ export async function getDashboardData() {
   const tomorrow = addDays(today, 1);
   const endOfTomorrow = addDays(tomorrow, 1);
 
-  // Generate instances for today and tomorrow
-  await generateInstancesForRange(today, tomorrow);
-
-  // Process failed instances
-  await processFailedInstances();
-
-  // Get today's instances (including overdue CARRY_OVER_STACK)
-  const todayInstances = await prisma.taskInstance.findMany({
+  // Instances around today and tomorrow plus older open ones; the buckets
+  // below use the displayed date, which can differ for zoned templates
+  const instances = await prisma.taskInstance.findMany({
     where: {
       // Exclude deleted instances
       status: {
         not: 'DELETED',
       },
       OR: [
-        // Today's instances
         {
           date: {
-            gte: toUTC(today),
-            lt: toUTC(tomorrow),
+            gte: toUTC(subDays(today, TIMEZONE_SHIFT_DAYS)),
+            lt: toUTC(addDays(endOfTomorrow, TIMEZONE_SHIFT_DAYS)),
           },
         },
-        // Overdue instances (CARRY_OVER_STACK only)
+        // Overdue instances (FAIL_ON_MISS ones are FAILED by now unless their
+        // own timezone's day or their grace period is not over yet)
         {
           date: {
             lt: toUTC(today),
           },
           status: 'OPEN',
-          template: {
-            carryPolicy: 'CARRY_OVER_STACK',
-          },
         },
       ],
     },
     include: {
-      template: true,
+      template: { include: { revisions: true } },
     },
-    orderBy: [
-      { status: 'asc' }, // OPEN first
-      { date: 'asc' },
-    ],
   });
 
-  // Get tomorrow's instances
-  const tomorrowInstances = await prisma.taskInstance.findMany({
-    where: {
-      date: {
-        gte: toUTC(tomorrow),
-        lt: toUTC(endOfTomorrow),
-      },
-      // Exclude deleted instances
-      status: {
-        not: 'DELETED',
-      },
-    },
-    include: {
-      template: true,
-    },
-    orderBy: [
-      { status: 'asc' },
-      { date: 'asc' },
-    ],
-  });
+  const todayKey = formatDateKey(today);
+  const tomorrowKey = formatDateKey(tomorrow);
+  const nowTime = format(getNow(), 'HH:mm');
 
-  // Separate into categories
-  const todayOpen = todayInstances.filter(i => i.status === 'OPEN');
-  const todayDone = todayInstances.filter(i => i.status === 'DONE');
-  const todayFailed = todayInstances.filter(i => i.status === 'FAILED');
+  const formatted = instances.filter(isVisible).map(formatInstance).sort(compareInstances);
+  const onDay = (key: string) => formatted.filter(i => i.date === key);
+  const todayInstances = onDay(todayKey);
+  const tomorrowInstances = onDay(tomorrowKey);
 
-  // Identify overdue
-  const overdue = todayOpen.filter(i =>
-    isBefore(toZoned(i.date), today)
-  );
-  const dueToday = todayOpen.filter(i =>
-    !isBefore(toZoned(i.date), today)
-  );
+  // Earlier days, and today's instances whose due time has passed; ROLL_FORWARD
+  // instances move on to the next day instead of becoming overdue
+  const isOverdue = (i: FormattedInstance) =>
+    i.template.carryPolicy !== 'ROLL_FORWARD'
+    && (i.date < todayKey || (i.date === todayKey && i.dueTime !== null && i.dueTime <= nowTime));
 
   return {
     today: {
-      overdue: overdue.map(formatInstance),
-      open: dueToday.map(formatInstance),
-      done: todayDone.map(formatInstance),
-      failed: todayFailed.map(formatInstance),
+      overdue: formatted.filter(i => i.status === 'OPEN' && isOverdue(i)),
+      open: todayInstances.filter(i => i.status === 'OPEN' && !isOverdue(i)),
+      done: todayInstances.filter(i => i.status === 'DONE'),
+      failed: todayInstances.filter(i => i.status === 'FAILED'),
     },
     tomorrow: {
-      open: tomorrowInstances.filter(i => i.status === 'OPEN').map(formatInstance),
-      done: tomorrowInstances.filter(i => i.status === 'DONE').map(formatInstance),
+      open: tomorrowInstances.filter(i => i.status === 'OPEN'),
+      done: tomorrowInstances.filter(i => i.status === 'DONE'),
     },
   };
 }
 
-function formatInstance(instance: TaskInstance & { template: TaskTemplate }) {
+// Open instances of a paused template are hidden from its first paused day on
+function isVisible(instance: TaskInstance & { template: TaskTemplate }): boolean {
+  const { pausedAt } = instance.template;
+  return !pausedAt || instance.status !== 'OPEN' || isBefore(instance.date, pausedAt);
+}
+
+function isLate(instance: TaskInstance & { template: TaskTemplate }): boolean {
+  const { template } = instance;
+  return instance.status === 'OPEN'
+    && template.carryPolicy === 'FAIL_ON_MISS'
+    && !!template.graceHours
+    && isBefore(instance.date, toUTC(getTemplateToday(template)));
+}
+
+type FormattedInstance = ReturnType<typeof formatInstance>;
+
+// By displayed date, then time (untimed first), like the database ordering
+function compareInstances(a: FormattedInstance, b: FormattedInstance): number {
+  if (a.date !== b.date) return a.date < b.date ? -1 : 1;
+  return (a.dueTime ?? '').localeCompare(b.dueTime ?? '');
+}
+
+// Day and time of an instance in the app timezone. Instances of templates with
+// their own timezone are stored in that timezone and converted here.
+export function getDisplaySlot(
+  instance: TaskInstance & { template: TaskTemplate }
+): { day: Date; time: string | null } {
+  const day = toZoned(instance.date);
+
+  if (!instance.template.timezone || !instance.dueTime) {
+    return { day, time: instance.dueTime };
+  }
+
+  return toAppTimezone(day, instance.dueTime, instance.template.timezone);
+}
+
+// Stored day for moving an instance to another displayed day (inverse of getDisplaySlot)
+export function toStoredDay(instance: TaskInstance & { template: TaskTemplate }, displayDay: Date): Date {
+  const { day } = getDisplaySlot(instance);
+  return addDays(toZoned(instance.date), differenceInCalendarDays(displayDay, day));
+}
+
+function formatInstance(instance: TaskInstance & { template: TemplateWithExceptions }) {
+  const slot = getDisplaySlot(instance);
+  // ROTATION weeks can replace the template's title and notes; the week
+  // index refers to the cycle in force on the occurrence day
+  const variant = instance.rotationWeek !== null
+    ? parseRotationWeeks(getTemplateOn(instance.template, toZoned(getOccurrenceDate(instance))).rotationWeeks)[instance.rotationWeek]
+    : undefined;
+  // Displayed day the occurrence was scheduled for, if the instance was moved
+  const { occurrenceDate } = instance;
+  const movedFrom = occurrenceDate && occurrenceDate.getTime() !== instance.date.getTime()
+    ? formatDateKey(getDisplaySlot({ ...instance, date: occurrenceDate }).day)
+    : null;
+
   return {
     id: instance.id,
     templateId: instance.templateId,
-    date: formatDateKey(toZoned(instance.date)),
+    // Computed occurrence past the generation horizon, stored on first use
+    isVirtual: parseVirtualId(instance.id) !== null,
+    date: formatDateKey(slot.day),
+    dueTime: slot.time,
+    // Day and time in the template's own timezone (same as above without one)
+    timezone: instance.template.timezone,
+    localDate: formatDateKey(toZoned(instance.date)),
+    localDueTime: instance.dueTime,
     status: instance.status,
     completedAt: instance.completedAt?.toISOString() ?? null,
     createdAt: instance.createdAt.toISOString(),
+    rotationWeek: instance.rotationWeek,
+    movedFrom,
+    // CARRY_OVER_COLLAPSE: missed occurrences this instance stands in for
+    absorbedCount: instance.absorbedCount,
+    // ROLL_FORWARD: times this instance was moved on to the next day
+    rolledCount: instance.rolledCount,
+    // Missed but still completable within the template's grace period
+    lateUntil: isLate(instance) ? getFailDeadline(instance.template, instance.date).toISOString() : null,
     // Instance-level overrides
     customTitle: instance.customTitle,
     customNotes: instance.customNotes,
     template: {
       id: instance.template.id,
-      title: instance.template.title,
-      notes: instance.template.notes,
+      title: variant?.title || instance.template.title,
+      notes: variant?.notes || instance.template.notes,
       carryPolicy: instance.template.carryPolicy,
       scheduleType: instance.template.scheduleType,
       dueTime: instance.template.dueTime,
+      timezone: instance.template.timezone,
       tags: instance.template.tags,
       color: instance.template.color,
     },
   };
 }
 
+// Stored instances plus virtual ones past the watermark; generation and
+// missed-instance handling run in the background jobs
 export async function getInstancesForRange(startDate: Date, endDate: Date) {
-  // Generate instances first
-  await generateInstancesForRange(startDate, endDate);
-
-  // Process failed instances
-  await processFailedInstances();
-
-  const instances = await prisma.taskInstance.findMany({
+  const stored = await prisma.taskInstance.findMany({
     where: {
       date: {
-        gte: toUTC(startDate),
-        lte: toUTC(endDate),
+        gte: toUTC(subDays(startDate, TIMEZONE_SHIFT_DAYS)),
+        lte: toUTC(addDays(endDate, TIMEZONE_SHIFT_DAYS)),
       },
       // Exclude deleted instances
       status: {
@@ -219,13 +1066,24 @@ export async function getInstancesForRange(startDate: Date, endDate: Date) {
       },
     },
     include: {
-      template: true,
+      template: { include: { revisions: true } },
     },
     orderBy: [
       { date: 'asc' },
       { status: 'asc' },
+      { dueTime: 'asc' },
     ],
   });
 
-  return instances.map(formatInstance);
+  // Filter on the displayed date (zoned templates can move across days)
+  const startKey = formatDateKey(startDate);
+  const endKey = formatDateKey(endDate);
+
+  const instances = [...stored, ...await getVirtualInstances(startDate, endDate)];
+
+  return instances
+    .filter(isVisible)
+    .map(formatInstance)
+    .filter(i => i.date >= startKey && i.date <= endKey)
+    .sort(compareInstances);
 }
@@ -0,0 +1,91 @@
+import { prisma } from './db.js';
+import { getOccurrencesInRange, parseDueTimes, toUTC, toZoned } from './scheduler.js';
+import { getCustomHolidayKeys } from './instance-generator.js';
+import type { TaskInstance } from '@prisma/client';
+
+const slotKey = (date: Date, dueTime: string | null) => `${date.getTime()}|${dueTime ?? ''}`;
+
+// Before occurrenceDate existed, moving an instance left a DELETED placeholder at
+// its original day so the generator would not recreate it there. Where the
+// schedule tells them apart, the placeholder is replaced by the moved instance's
+// occurrenceDate; all other rows keep their date as occurrence date.
+export async function migrateMovePlaceholders(): Promise<void> {
+  const pending = await prisma.taskInstance.count({ where: { occurrenceDate: null } });
+  if (pending === 0) return;
+
+  // Only calendar-based schedules got placeholders
+  const templates = await prisma.taskTemplate.findMany({
+    where: {
+      scheduleType: { notIn: ['ONCE', 'AFTER_COMPLETION'] },
+      instances: { some: { status: 'DELETED', occurrenceDate: null } },
+    },
+    include: { exceptions: true },
+  });
+  const customHolidays = await getCustomHolidayKeys();
+
+  let replaced = 0;
+  for (const template of templates) {
+    const instances = await prisma.taskInstance.findMany({
+      where: { templateId: template.id, occurrenceDate: null },
+      orderBy: { createdAt: 'asc' },
+    });
+    const dates = instances.map(instance => instance.date.getTime());
+
+    const dueTimes = parseDueTimes(template.dueTime);
+    const slots: (string | null)[] = dueTimes.length > 0 ? dueTimes : [null];
+    const scheduled = new Set<string>();
+    const occurrences = getOccurrencesInRange(
+      template,
+      toZoned(new Date(Math.min(...dates))),
+      toZoned(new Date(Math.max(...dates))),
+      customHolidays
+    );
+    for (const occurrence of occurrences) {
+      for (const dueTime of slots) {
+        scheduled.add(slotKey(toUTC(occurrence), dueTime));
+      }
+    }
+
+    // An instance off the schedule, or a later one in an occupied slot, was moved there
+    const taken = new Set<string>();
+    const moved: TaskInstance[] = [];
+    for (const instance of instances) {
+      if (instance.status === 'DELETED') continue;
+      const key = slotKey(instance.date, instance.dueTime);
+      if (!scheduled.has(key) || taken.has(key)) {
+        moved.push(instance);
+      } else {
+        taken.add(key);
+      }
+    }
+
+    const placeholders = instances.filter(instance => {
+      const key = slotKey(instance.date, instance.dueTime);
+      return instance.status === 'DELETED' && scheduled.has(key) && !taken.has(key);
+    });
+
+    for (const instance of moved) {
+      // The placeholder was created when the instance was moved; the nearest day wins
+      const candidates = placeholders.filter(placeholder =>
+        placeholder.dueTime === instance.dueTime && placeholder.createdAt >= instance.createdAt
+      );
+      if (candidates.length === 0) continue;
+
+      const distance = (placeholder: TaskInstance) => Math.abs(placeholder.date.getTime() - instance.date.getTime());
+      const placeholder = candidates.reduce((best, candidate) => (distance(candidate) < distance(best) ? candidate : best));
+      placeholders.splice(placeholders.indexOf(placeholder), 1);
+
+      await prisma.$transaction([
+        prisma.taskInstance.update({
+          where: { id: instance.id },
+          data: { occurrenceDate: placeholder.date },
+        }),
+        prisma.taskInstance.delete({ where: { id: placeholder.id } }),
+      ]);
+      replaced++;
+    }
+  }
+
+  await prisma.$executeRaw`UPDATE "TaskInstance" SET "occurrenceDate" = "date" WHERE "occurrenceDate" IS NULL`;
+  console.log(`Occurrence dates set, replaced ${replaced} placeholders of moved instances`);
+}
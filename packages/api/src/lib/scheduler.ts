@@ -3,6 +3,9 @@ import {
   addWeeks,
   addMonths,
   addYears,
+  addHours,
+  subDays,
+  subHours,
   startOfDay,
   endOfDay,
   isBefore,
@@ -15,21 +18,101 @@ import {
   setDate,
   eachDayOfInterval,
   format,
+  isWeekend,
+  parseISO,
+  differenceInCalendarDays,
+  differenceInCalendarWeeks,
+  differenceInCalendarMonths,
+  differenceInCalendarYears,
+  setHours,
+  setMinutes,
 } from 'date-fns';
 import { toZonedTime, fromZonedTime } from 'date-fns-tz';
-import type { TaskTemplate } from '@prisma/client';
+import rrule from 'rrule';
+import type { RRule, RRuleSet } from 'rrule';
+import type { TaskTemplate, ScheduleException, TemplateRevision } from '@prisma/client';
+import { isHoliday, type HolidayCalendar } from './holidays.js';
+
+const { rrulestr, Frequency } = rrule;
 
 // Type definitions (previously Prisma enums, now strings)
-export type ScheduleType = 'ONCE' | 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY' | 'INTERVAL';
+export type ScheduleType = 'ONCE' | 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY' | 'INTERVAL' | 'RRULE' | 'AFTER_COMPLETION' | 'ROTATION';
 export type IntervalUnit = 'DAY' | 'WEEK' | 'MONTH' | 'YEAR';
-export type MonthlyMode = 'FIRST_DAY' | 'LAST_DAY' | 'SPECIFIC_DAY';
-export type CarryPolicy = 'FAIL_ON_MISS' | 'CARRY_OVER_STACK';
-export type InstanceStatus = 'OPEN' | 'DONE' | 'FAILED';
+export type MonthlyMode = 'FIRST_DAY' | 'LAST_DAY' | 'SPECIFIC_DAY' | 'NTH_WEEKDAY' | 'NTH_WORKDAY';
+export type CarryPolicy = 'FAIL_ON_MISS' | 'CARRY_OVER_STACK' | 'CARRY_OVER_COLLAPSE' | 'ROLL_FORWARD';
+export type InstanceStatus = 'OPEN' | 'DONE' | 'FAILED' | 'SKIPPED';
+export type HolidayRule = 'SKIP' | 'PREVIOUS_WORKDAY' | 'NEXT_WORKDAY';
+export type WeekendRule = 'PREVIOUS_FRIDAY' | 'NEXT_MONDAY' | 'NEAREST_WEEKDAY';
+export type ScheduleExceptionKind = 'EXCLUDE' | 'EXTRA';
+
+// One week of a ROTATION cycle: its weekdays (0=Sunday) and optional title/notes variant
+export interface RotationWeek {
+  days: number[];
+  title?: string | null;
+  notes?: string | null;
+}
+
+// A template with its exception dates and schedule revisions loaded (see getOccurrencesInRange)
+export type TemplateWithExceptions = TaskTemplate & {
+  exceptions?: Pick<ScheduleException, 'date' | 'kind'>[];
+  revisions?: Pick<TemplateRevision, 'effectiveFrom' | 'schedule'>[];
+};
+
+// Schedule fields a TemplateRevision changes from its effective day on
+export const REVISION_FIELDS = [
+  'scheduleType',
+  'anchorDate',
+  'intervalUnit',
+  'intervalValue',
+  'weeklyDays',
+  'rotationWeeks',
+  'monthlyDay',
+  'monthlyMode',
+  'monthlyOrdinal',
+  'monthlyWeekday',
+  'yearlyMonth',
+  'yearlyDay',
+  'rrule',
+  'holidayCalendar',
+  'holidayRule',
+  'weekendRule',
+  'seasonStart',
+  'seasonEnd',
+  'dueTime',
+] as const;
+
+export type RevisionSchedule = Pick<TaskTemplate, typeof REVISION_FIELDS[number]>;
+
+// Timezone that stored dates and "today" refer to. Loaded from AppSettings on
+// startup (see lib/timezone.ts); the TZ env var is the default.
+const DEFAULT_TIMEZONE = 'Europe/Berlin';
+
+let timezone = getDefaultTimezone();
+
+export function isValidTimezone(tz: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
 
-const TIMEZONE = 'Europe/Berlin';
+export function getDefaultTimezone(): string {
+  const envTimezone = process.env.TZ;
+  return envTimezone && isValidTimezone(envTimezone) ? envTimezone : DEFAULT_TIMEZONE;
+}
+
+export function getTimezone(): string {
+  return timezone;
+}
+
+export function setTimezone(tz: string): void {
+  timezone = tz;
+}
 
 export function getNow(): Date {
-  return toZonedTime(new Date(), TIMEZONE);
+  return toZonedTime(new Date(), timezone);
 }
 
 export function getToday(): Date {
@@ -40,24 +123,188 @@ export function getTomorrow(): Date {
   return addDays(getToday(), 1);
 }
 
+// Now and today in the template's own timezone (falls back to the app timezone)
+export function getTemplateNow(template: TaskTemplate): Date {
+  if (!template.timezone) return getNow();
+  return toZonedTime(new Date(), template.timezone);
+}
+
+export function getTemplateToday(template: TaskTemplate): Date {
+  return startOfDay(getTemplateNow(template));
+}
+
+// Stored instance dates before this are missed for good: the day is over in the
+// template's timezone and so is the template's grace period. Failing is day-level:
+// a due time makes an instance overdue, but it fails only after its whole day.
+export function getMissCutoff(template: TaskTemplate): Date {
+  if (!template.graceHours) return toUTC(getTemplateToday(template));
+  return toUTC(subHours(subDays(getTemplateNow(template), 1), template.graceHours));
+}
+
+// Moment a missed instance on the stored date fails (end of its day plus grace,
+// regardless of its due time)
+export function getFailDeadline(template: TaskTemplate, date: Date): Date {
+  const end = addHours(addDays(toZoned(date), 1), template.graceHours ?? 0);
+  return fromZonedTime(end, template.timezone ?? timezone);
+}
+
+// Converts a day and HH:mm in another timezone into the app timezone
+export function toAppTimezone(day: Date, time: string, fromTimezone: string): { day: Date; time: string } {
+  const [hours, minutes] = time.split(':').map(Number);
+  const zoned = toZoned(fromZonedTime(setMinutes(setHours(day, hours), minutes), fromTimezone));
+  return { day: startOfDay(zoned), time: format(zoned, 'HH:mm') };
+}
+
 export function toUTC(zonedDate: Date): Date {
-  return fromZonedTime(zonedDate, TIMEZONE);
+  return fromZonedTime(zonedDate, timezone);
 }
 
 export function toZoned(utcDate: Date): Date {
-  return toZonedTime(utcDate, TIMEZONE);
+  return toZonedTime(utcDate, timezone);
+}
+
+// Template dates arrive as ISO strings of the intended calendar day (UTC midnight)
+// and are stored like instance dates: local midnight of that day
+export function parseDateInput(value: string): Date {
+  return toUTC(startOfDay(parseISO(value.slice(0, 10))));
 }
 
 export function formatDateKey(date: Date): string {
   return format(date, 'yyyy-MM-dd');
 }
 
+// ONCE and AFTER_COMPLETION schedules are replaced outright instead of revised
+export function isRevisable(scheduleType: string): boolean {
+  return scheduleType !== 'ONCE' && scheduleType !== 'AFTER_COMPLETION';
+}
+
+// JSON of the revised fields; the anchor is stored as its day so it needs no timezone migration
+export function serializeRevisionSchedule(template: TaskTemplate): string {
+  const schedule: Record<string, unknown> = {};
+  for (const field of REVISION_FIELDS) {
+    schedule[field] = template[field];
+  }
+  schedule.anchorDate = template.anchorDate ? formatDateKey(toZoned(template.anchorDate)) : null;
+  return JSON.stringify(schedule);
+}
+
+export function parseRevisionSchedule(schedule: string): RevisionSchedule {
+  const { anchorDate, ...fields } = JSON.parse(schedule);
+  return { ...fields, anchorDate: anchorDate ? parseDateInput(anchorDate) : null };
+}
+
+// Splits a range of days at revision boundaries, each part with the template as in
+// force there (without revisions). The first revision also covers the days before it.
+function getRevisionPeriods(
+  template: TemplateWithExceptions,
+  startDate: Date,
+  endDate: Date
+): { template: TemplateWithExceptions; start: Date; end: Date }[] {
+  const { revisions, ...base } = template;
+  const start = startOfDay(startDate);
+  const end = startOfDay(endDate);
+  if (!revisions?.length) {
+    return [{ template: base, start, end }];
+  }
+
+  const sorted = [...revisions].sort((a, b) => a.effectiveFrom.getTime() - b.effectiveFrom.getTime());
+  const periods: { template: TemplateWithExceptions; start: Date; end: Date }[] = [];
+  sorted.forEach((revision, index) => {
+    const effectiveFrom = startOfDay(toZoned(revision.effectiveFrom));
+    const next = sorted[index + 1];
+    const from = index > 0 && isBefore(start, effectiveFrom) ? effectiveFrom : start;
+    let to = end;
+    if (next) {
+      const lastDay = subDays(startOfDay(toZoned(next.effectiveFrom)), 1);
+      if (isBefore(lastDay, end)) to = lastDay;
+    }
+
+    if (!isAfter(from, to)) {
+      periods.push({ template: { ...base, ...parseRevisionSchedule(revision.schedule) }, start: from, end: to });
+    }
+  });
+
+  return periods;
+}
+
+// The template with the schedule in force on a day
+export function getTemplateOn(template: TemplateWithExceptions, date: Date): TemplateWithExceptions {
+  return getRevisionPeriods(template, date, date)[0]?.template ?? template;
+}
+
 export function parseWeeklyDays(weeklyDays: string | null): number[] {
   if (!weeklyDays) return [];
   return weeklyDays.split(',').map(d => parseInt(d, 10)).filter(d => !isNaN(d));
 }
 
-export function shouldOccurOnDate(template: TaskTemplate, date: Date): boolean {
+// Weeks of a ROTATION cycle, stored as JSON (empty if missing or malformed)
+export function parseRotationWeeks(rotationWeeks: string | null): RotationWeek[] {
+  if (!rotationWeeks) return [];
+  try {
+    const weeks = JSON.parse(rotationWeeks);
+    return Array.isArray(weeks) ? weeks : [];
+  } catch {
+    return [];
+  }
+}
+
+// Position of date's week in the ROTATION cycle (null before the anchor's week).
+// Weeks start on Monday; the anchor's week is the first week of the cycle.
+export function getRotationWeekIndex(template: TaskTemplate, date: Date): number | null {
+  const weeks = parseRotationWeeks(template.rotationWeeks);
+  if (!template.anchorDate || weeks.length === 0) return null;
+
+  const elapsed = differenceInCalendarWeeks(date, startOfDay(toZoned(template.anchorDate)), { weekStartsOn: 1 });
+  if (elapsed < 0) return null;
+
+  return elapsed % weeks.length;
+}
+
+// Due time slots of a template ("08:00,14:00,20:00"), sorted - one instance per slot
+export function parseDueTimes(dueTime: string | null): string[] {
+  if (!dueTime) return [];
+  return [...new Set(dueTime.split(',').map(t => t.trim()).filter(Boolean))].sort();
+}
+
+// Yearly active window from seasonStart to seasonEnd ("MM-DD", inclusive).
+// A window like 11-15..03-01 wraps around the turn of the year.
+export function isInSeason(template: TaskTemplate, date: Date): boolean {
+  if (!template.seasonStart || !template.seasonEnd) return true;
+
+  const key = format(date, 'MM-dd');
+  if (template.seasonStart <= template.seasonEnd) {
+    return key >= template.seasonStart && key <= template.seasonEnd;
+  }
+  return key >= template.seasonStart || key <= template.seasonEnd;
+}
+
+// date itself when in season, otherwise the start of the next window
+export function moveIntoSeason(template: TaskTemplate, date: Date): Date {
+  if (isInSeason(template, date) || !template.seasonStart) return date;
+
+  const [month, day] = template.seasonStart.split('-').map(Number);
+  const start = new Date(date.getFullYear(), month - 1, day);
+  return isBefore(start, date) ? addYears(start, 1) : start;
+}
+
+// Monday to Friday, excluding holidays of the template's calendar (if any)
+export function isWorkday(
+  template: TaskTemplate,
+  date: Date,
+  customHolidays?: ReadonlySet<string>
+): boolean {
+  if (isWeekend(date)) return false;
+  if (!template.holidayCalendar) return true;
+  return !isHoliday(template.holidayCalendar as HolidayCalendar, date, customHolidays);
+}
+
+// date is a local day in the template's timezone - for templates with their own
+// timezone that can differ from the app's day, see toAppTimezone
+export function shouldOccurOnDate(
+  template: TaskTemplate,
+  date: Date,
+  customHolidays?: ReadonlySet<string>
+): boolean {
   const dateOnly = startOfDay(date);
 
   // Check startDate - if set, no occurrences before this date
@@ -68,6 +315,16 @@ export function shouldOccurOnDate(template: TaskTemplate, date: Date): boolean {
     }
   }
 
+  // Check endDate - if set, no occurrences after this date
+  if (template.endDate && isAfter(dateOnly, startOfDay(toZoned(template.endDate)))) {
+    return false;
+  }
+
+  // Check the seasonal window
+  if (!isInSeason(template, dateOnly)) {
+    return false;
+  }
+
   // Check anchor date for ONCE
   if (template.scheduleType === 'ONCE') {
     if (!template.anchorDate) return false;
@@ -98,6 +355,14 @@ export function shouldOccurOnDate(template: TaskTemplate, date: Date): boolean {
     if (template.monthlyMode === 'FIRST_DAY') {
       return dayOfMonth === 1;
     }
+    if (template.monthlyMode === 'NTH_WEEKDAY') {
+      if (template.monthlyOrdinal == null || template.monthlyWeekday == null) return false;
+      return isNthWeekdayOfMonth(dateOnly, template.monthlyOrdinal, template.monthlyWeekday);
+    }
+    if (template.monthlyMode === 'NTH_WORKDAY') {
+      if (!template.monthlyDay) return false;
+      return isNthWorkdayOfMonth(dateOnly, template.monthlyDay, d => isWorkday(template, d, customHolidays));
+    }
     // SPECIFIC_DAY or default
     if (template.monthlyDay) {
       // Handle months with fewer days
@@ -117,6 +382,14 @@ export function shouldOccurOnDate(template: TaskTemplate, date: Date): boolean {
     return month === template.yearlyMonth && day === targetDay;
   }
 
+  // ROTATION: cycle of weeks, each with its own weekdays (none before the anchor date)
+  if (template.scheduleType === 'ROTATION') {
+    const index = getRotationWeekIndex(template, dateOnly);
+    if (index === null || isBefore(dateOnly, startOfDay(toZoned(template.anchorDate!)))) return false;
+    const week = parseRotationWeeks(template.rotationWeeks)[index];
+    return week.days.includes(getDay(dateOnly));
+  }
+
   // INTERVAL: every X days/weeks/months/years from anchor
   if (template.scheduleType === 'INTERVAL') {
     if (!template.anchorDate || !template.intervalUnit || !template.intervalValue) {
@@ -134,31 +407,152 @@ export function shouldOccurOnDate(template: TaskTemplate, date: Date): boolean {
     return isIntervalMatch(anchorOnly, dateOnly, template.intervalUnit as IntervalUnit, template.intervalValue);
   }
 
+  // RRULE: RFC 5545 recurrence rule, expanded from the anchor date
+  if (template.scheduleType === 'RRULE') {
+    const rule = buildRRule(template);
+    if (!rule) return false;
+    return expandRRule(rule, dateOnly, dateOnly).length > 0;
+  }
+
   return false;
 }
 
+// rrule operates on "floating" UTC dates. We map each local calendar day
+// onto UTC midnight of the same day and back, so the server timezone never
+// shifts an occurrence to the neighbouring day.
+function toFloating(date: Date): Date {
+  return new Date(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()));
+}
+
+function fromFloating(date: Date): Date {
+  return new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+export function parseRRule(rule: string, dtstart?: Date): RRule | RRuleSet {
+  return rrulestr(rule.trim(), dtstart ? { dtstart } : {});
+}
+
+// Only day-level rules: sub-daily frequencies and BYHOUR/BYMINUTE/BYSECOND make
+// expandRRule step through every hit from DTSTART, which blocks the server
+function isDayLevel(parsed: RRule | RRuleSet): boolean {
+  const rules = 'rrules' in parsed ? [...parsed.rrules(), ...parsed.exrules()] : [parsed];
+  return rules.every(rule => {
+    const { freq, byhour, byminute, bysecond } = rule.origOptions;
+    return (freq === undefined || freq <= Frequency.DAILY) && byhour == null && byminute == null && bysecond == null;
+  });
+}
+
+export function isValidRRule(rule: string): boolean {
+  try {
+    const parsed = parseRRule(rule);
+    if (!isDayLevel(parsed)) return false;
+
+    // Make sure the rule can actually be expanded, not just tokenized
+    parsed.after(new Date(Date.UTC(2000, 0, 1)), true);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function buildRRule(template: TaskTemplate): RRule | RRuleSet | null {
+  if (!template.rrule) return null;
+
+  // DTSTART inside the rule wins; otherwise anchor > startDate > creation date
+  const anchor = template.anchorDate ?? template.startDate ?? template.createdAt;
+  const dtstart = toFloating(startOfDay(toZoned(anchor)));
+
+  try {
+    const rule = parseRRule(template.rrule, dtstart);
+    // Stored before sub-daily rules were rejected, see isValidRRule
+    return isDayLevel(rule) ? rule : null;
+  } catch {
+    return null;
+  }
+}
+
+function expandRRule(rule: RRule | RRuleSet, start: Date, end: Date): Date[] {
+  const from = toFloating(start);
+  const to = new Date(toFloating(end).getTime() + 24 * 60 * 60 * 1000 - 1);
+
+  // A DTSTART or RDATE with a time can add a second hit on a day; keep one per date
+  const seen = new Set<string>();
+  const occurrences: Date[] = [];
+  for (const hit of rule.between(from, to, true)) {
+    const day = fromFloating(hit);
+    const key = formatDateKey(day);
+    if (!seen.has(key)) {
+      seen.add(key);
+      occurrences.push(day);
+    }
+  }
+  return occurrences;
+}
+
+// ordinal 1-4 counts from the start of the month, -1 means the last one
+function isNthWeekdayOfMonth(date: Date, ordinal: number, weekday: number): boolean {
+  if (getDay(date) !== weekday) return false;
+
+  if (ordinal === -1) {
+    // Last occurrence: one week later is already in the next month
+    return getMonth(addDays(date, 7)) !== getMonth(date);
+  }
+
+  return Math.ceil(getDate(date) / 7) === ordinal;
+}
+
+// Counts working days from the 1st of the month up to and including date
+function isNthWorkdayOfMonth(date: Date, n: number, isWorkingDay: (d: Date) => boolean): boolean {
+  if (!isWorkingDay(date)) return false;
+
+  let count = 0;
+  for (let day = setDate(date, 1); !isAfter(day, date); day = addDays(day, 1)) {
+    if (isWorkingDay(day)) count++;
+  }
+  return count === n;
+}
+
 function isIntervalMatch(
   anchor: Date,
   target: Date,
   unit: IntervalUnit,
   value: number
 ): boolean {
-  if (isEqual(anchor, target)) return true;
+  const index = getFirstIntervalIndex(anchor, target, unit, value);
+  return isEqual(getIntervalOccurrence(anchor, unit, value, index), startOfDay(target));
+}
+
+// The index-th occurrence of an interval series, always counted from the anchor
+// so month-end dates clamp per occurrence (Jan 31, Feb 28, Mar 31, ...) instead
+// of drifting to the shortest month
+function getIntervalOccurrence(anchor: Date, unit: IntervalUnit, value: number, index: number): Date {
+  return addInterval(anchor, unit, value * index);
+}
 
-  // Calculate the number of intervals between anchor and target
-  let current = anchor;
-  let iterations = 0;
-  const maxIterations = 10000; // Safety limit
+// Index of the first occurrence at or after date, computed without stepping
+function getFirstIntervalIndex(anchor: Date, date: Date, unit: IntervalUnit, value: number): number {
+  const target = startOfDay(date);
+  if (!isAfter(target, anchor)) return 0;
 
-  while (isBefore(current, target) && iterations < maxIterations) {
-    current = addInterval(current, unit, value);
-    if (isEqual(startOfDay(current), startOfDay(target))) {
-      return true;
+  let index: number;
+  switch (unit) {
+    case 'DAY':
+    case 'WEEK': {
+      const step = unit === 'WEEK' ? value * 7 : value;
+      return Math.ceil(differenceInCalendarDays(target, anchor) / step);
     }
-    iterations++;
+    case 'MONTH':
+      index = Math.floor(differenceInCalendarMonths(target, anchor) / value);
+      break;
+    case 'YEAR':
+      index = Math.floor(differenceInCalendarYears(target, anchor) / value);
+      break;
+    default:
+      return 0;
   }
 
-  return false;
+  // Clamping can put the occurrence of the target's month before the target
+  return isBefore(getIntervalOccurrence(anchor, unit, value, index), target) ? index + 1 : index;
 }
 
 function addInterval(date: Date, unit: IntervalUnit, value: number): Date {
@@ -176,14 +570,208 @@ function addInterval(date: Date, unit: IntervalUnit, value: number): Date {
   }
 }
 
+// How far outside the requested range we look for occurrences that a
+// weekend or holiday rule could shift into it
+const ADJUSTMENT_WINDOW_DAYS = 14;
+
+// Upper bound when searching for the last occurrence of a counted series
+const MAX_SERIES_YEARS = 50;
+
+// customHolidays: dateKeys of the app-wide custom holiday list (CUSTOM calendar)
+// Exception dates apply when loaded on the template: EXCLUDE drops an occurrence,
+// EXTRA adds one regardless of the schedule, season or series end.
 export function getOccurrencesInRange(
+  template: TemplateWithExceptions,
+  startDate: Date,
+  endDate: Date,
+  customHolidays?: ReadonlySet<string>
+): Date[] {
+  const start = startOfDay(startDate);
+  let end = startOfDay(endDate);
+
+  // Nothing after the end of the series
+  const seriesEnd = getSeriesEnd(template, customHolidays);
+  if (seriesEnd && isBefore(seriesEnd, end)) {
+    end = seriesEnd;
+  }
+
+  const occurrences = isAfter(start, end)
+    ? []
+    : getAdjustedOccurrences(template, start, end, customHolidays);
+
+  if (!template.exceptions?.length) {
+    return occurrences;
+  }
+
+  const excluded = new Set<string>();
+  const extra: Date[] = [];
+  for (const exception of template.exceptions) {
+    const date = startOfDay(toZoned(exception.date));
+    if (exception.kind === 'EXCLUDE') {
+      excluded.add(formatDateKey(date));
+    } else if (!isBefore(date, start) && !isAfter(date, startOfDay(endDate))) {
+      extra.push(date);
+    }
+  }
+
+  const result = new Map<string, Date>();
+  for (const date of [...occurrences, ...extra]) {
+    const key = formatDateKey(date);
+    if (!excluded.has(key)) {
+      result.set(key, date);
+    }
+  }
+
+  return [...result.values()].sort((a, b) => a.getTime() - b.getTime());
+}
+
+// Last possible due date of a series: endDate and/or the date of the
+// maxOccurrences-th occurrence, whichever comes first (null = open-ended).
+// AFTER_COMPLETION series count their instances instead, see generateRelativeInstance.
+export function getSeriesEnd(template: TemplateWithExceptions, customHolidays?: ReadonlySet<string>): Date | null {
+  let seriesEnd = template.endDate ? startOfDay(toZoned(template.endDate)) : null;
+
+  if (template.maxOccurrences && template.scheduleType !== 'AFTER_COMPLETION') {
+    const last = getNthOccurrence(template, template.maxOccurrences, customHolidays);
+    if (last && (!seriesEnd || isBefore(last, seriesEnd))) {
+      seriesEnd = last;
+    }
+  }
+
+  return seriesEnd;
+}
+
+// Counts occurrences from the start of the series, one year at a time
+function getNthOccurrence(template: TemplateWithExceptions, n: number, customHolidays?: ReadonlySet<string>): Date | null {
+  const seriesStart = template.startDate ?? template.anchorDate ?? template.createdAt;
+  let from = startOfDay(toZoned(seriesStart));
+  let remaining = n;
+
+  for (let year = 0; year < MAX_SERIES_YEARS; year++) {
+    const to = subDays(addYears(from, 1), 1);
+    const occurrences = getAdjustedOccurrences(template, from, to, customHolidays);
+    if (occurrences.length >= remaining) {
+      return occurrences[remaining - 1];
+    }
+    remaining -= occurrences.length;
+    from = addYears(from, 1);
+  }
+
+  return null;
+}
+
+// Scheduled occurrences after weekend/holiday adjustments, ignoring the series end.
+// Each revision's days follow the schedule of that revision.
+function getAdjustedOccurrences(
+  template: TemplateWithExceptions,
+  startDate: Date,
+  endDate: Date,
+  customHolidays?: ReadonlySet<string>
+): Date[] {
+  if (template.revisions?.length) {
+    return getRevisionPeriods(template, startDate, endDate).flatMap(period =>
+      getAdjustedOccurrences(period.template, period.start, period.end, customHolidays)
+    );
+  }
+
+  const hasAdjustments = !!template.weekendRule || (!!template.holidayCalendar && !!template.holidayRule);
+  if (!hasAdjustments) {
+    return getScheduledDates(template, startDate, endDate, customHolidays)
+      .filter(date => isInSeason(template, date));
+  }
+
+  const start = startOfDay(startDate);
+  const end = startOfDay(endDate);
+  const scheduled = getScheduledDates(
+    template,
+    subDays(start, ADJUSTMENT_WINDOW_DAYS),
+    addDays(end, ADJUSTMENT_WINDOW_DAYS),
+    customHolidays
+  );
+
+  // Shifted occurrences can collide with regular ones; keep one per date
+  const seen = new Set<string>();
+  const occurrences: Date[] = [];
+  for (const date of scheduled) {
+    const weekdayDate = applyWeekendRule(template, date);
+    const adjusted = applyHolidayRule(template, weekdayDate, customHolidays);
+    if (!adjusted || isBefore(adjusted, start) || isAfter(adjusted, end)) continue;
+    if (!isInSeason(template, adjusted)) continue;
+
+    const key = formatDateKey(adjusted);
+    if (!seen.has(key)) {
+      seen.add(key);
+      occurrences.push(adjusted);
+    }
+  }
+
+  return occurrences.sort((a, b) => a.getTime() - b.getTime());
+}
+
+// Moves a Saturday/Sunday occurrence onto the adjacent Friday or Monday
+function applyWeekendRule(template: TaskTemplate, date: Date): Date {
+  const dayOfWeek = getDay(date);
+  if (!template.weekendRule || (dayOfWeek !== 0 && dayOfWeek !== 6)) {
+    return date;
+  }
+
+  const toFriday = subDays(date, dayOfWeek === 6 ? 1 : 2);
+  const toMonday = addDays(date, dayOfWeek === 6 ? 2 : 1);
+
+  switch (template.weekendRule as WeekendRule) {
+    case 'PREVIOUS_FRIDAY':
+      return toFriday;
+    case 'NEXT_MONDAY':
+      return toMonday;
+    case 'NEAREST_WEEKDAY':
+      return dayOfWeek === 6 ? toFriday : toMonday;
+    default:
+      return date;
+  }
+}
+
+// Returns the adjusted date, or null if the occurrence is skipped
+function applyHolidayRule(
+  template: TaskTemplate,
+  date: Date,
+  customHolidays?: ReadonlySet<string>
+): Date | null {
+  if (!template.holidayCalendar || !template.holidayRule) {
+    return date;
+  }
+
+  const calendar = template.holidayCalendar as HolidayCalendar;
+  if (!isHoliday(calendar, date, customHolidays)) {
+    return date;
+  }
+
+  const rule = template.holidayRule as HolidayRule;
+  if (rule === 'SKIP') {
+    return null;
+  }
+
+  const step = rule === 'PREVIOUS_WORKDAY' ? -1 : 1;
+  let candidate = addDays(date, step);
+  for (let i = 0; i < ADJUSTMENT_WINDOW_DAYS; i++) {
+    if (isWorkday(template, candidate, customHolidays)) {
+      return candidate;
+    }
+    candidate = addDays(candidate, step);
+  }
+
+  return date;
+}
+
+// Occurrences as defined by the schedule alone, before weekend/holiday adjustments
+function getScheduledDates(
   template: TaskTemplate,
   startDate: Date,
-  endDate: Date
+  endDate: Date,
+  customHolidays?: ReadonlySet<string>
 ): Date[] {
   const occurrences: Date[] = [];
   let start = startOfDay(startDate);
-  const end = startOfDay(endDate);
+  let end = startOfDay(endDate);
 
   // Respect template's startDate - don't generate before it
   if (template.startDate) {
@@ -193,6 +781,14 @@ export function getOccurrencesInRange(
     }
   }
 
+  // Respect template's endDate - don't generate after it
+  if (template.endDate) {
+    const templateEnd = startOfDay(toZoned(template.endDate));
+    if (isBefore(templateEnd, end)) {
+      end = templateEnd;
+    }
+  }
+
   // If start is after end, no occurrences
   if (isAfter(start, end)) {
     return occurrences;
@@ -208,36 +804,43 @@ export function getOccurrencesInRange(
     return occurrences;
   }
 
-  // For INTERVAL, iterate from anchor
+  // For INTERVAL, jump straight to the first occurrence in range
   if (template.scheduleType === 'INTERVAL') {
     if (!template.anchorDate || !template.intervalUnit || !template.intervalValue) {
       return [];
     }
 
-    let current = startOfDay(toZoned(template.anchorDate));
-    const maxIterations = 10000;
-    let iterations = 0;
-
-    // Move current to first occurrence >= start
-    while (isBefore(current, start) && iterations < maxIterations) {
-      current = addInterval(current, template.intervalUnit as IntervalUnit, template.intervalValue);
-      iterations++;
-    }
+    const anchor = startOfDay(toZoned(template.anchorDate));
+    const unit = template.intervalUnit as IntervalUnit;
+    const value = template.intervalValue;
 
-    // Collect all occurrences in range
-    while (!isAfter(current, end) && iterations < maxIterations) {
+    let index = getFirstIntervalIndex(anchor, start, unit, value);
+    let current = getIntervalOccurrence(anchor, unit, value, index);
+    while (!isAfter(current, end)) {
       occurrences.push(current);
-      current = addInterval(current, template.intervalUnit as IntervalUnit, template.intervalValue);
-      iterations++;
+      index++;
+      current = getIntervalOccurrence(anchor, unit, value, index);
     }
 
     return occurrences;
   }
 
+  // AFTER_COMPLETION has no calendar occurrences; see getNextRelativeOccurrence
+  if (template.scheduleType === 'AFTER_COMPLETION') {
+    return occurrences;
+  }
+
+  // For RRULE, let the rule expand itself over the range
+  if (template.scheduleType === 'RRULE') {
+    const rule = buildRRule(template);
+    if (!rule) return [];
+    return expandRRule(rule, start, end);
+  }
+
   // For other types, check each day in range
   const days = eachDayOfInterval({ start, end });
   for (const day of days) {
-    if (shouldOccurOnDate(template, day)) {
+    if (shouldOccurOnDate(template, day, customHolidays)) {
       occurrences.push(day);
     }
   }
@@ -245,16 +848,137 @@ export function getOccurrencesInRange(
   return occurrences;
 }
 
-export function getNextOccurrence(template: TaskTemplate, afterDate: Date): Date | null {
-  const start = startOfDay(afterDate);
-  const maxDaysToCheck = 366 * 2; // Check up to 2 years ahead
+// AFTER_COMPLETION: the next due date is one interval after the reference day
+// (last completion or last miss). Without a reference the series starts at
+// anchorDate, falling back to startDate and finally today.
+export function getNextRelativeOccurrence(template: TaskTemplate, reference: Date | null): Date {
+  if (!reference) {
+    const seed = template.anchorDate ?? template.startDate;
+    return seed ? startOfDay(toZoned(seed)) : getTemplateToday(template);
+  }
 
-  for (let i = 0; i < maxDaysToCheck; i++) {
-    const checkDate = addDays(start, i);
-    if (shouldOccurOnDate(template, checkDate)) {
-      return checkDate;
-    }
+  if (!template.intervalUnit || !template.intervalValue) {
+    return startOfDay(reference);
+  }
+
+  return addInterval(startOfDay(reference), template.intervalUnit as IntervalUnit, template.intervalValue);
+}
+
+// First occurrence at or after afterDate. Looks one month ahead first, then
+// a year at a time up to MAX_SERIES_YEARS (null = none within that time).
+export function getNextOccurrence(
+  template: TemplateWithExceptions,
+  afterDate: Date,
+  customHolidays?: ReadonlySet<string>
+): Date | null {
+  let from = startOfDay(afterDate);
+  let to = addMonths(from, 1);
+
+  for (let year = 0; year <= MAX_SERIES_YEARS; year++) {
+    const [next] = getOccurrencesInRange(template, from, to, customHolidays);
+    if (next) return next;
+
+    from = addDays(to, 1);
+    to = addYears(from, 1);
   }
 
   return null;
 }
+
+// The next `count` occurrences at or after fromDate, for previews of unsaved
+// templates. AFTER_COMPLETION assumes every occurrence is completed on its due date.
+export function getUpcomingOccurrences(
+  template: TemplateWithExceptions,
+  fromDate: Date,
+  count: number,
+  customHolidays?: ReadonlySet<string>
+): Date[] {
+  const occurrences: Date[] = [];
+
+  if (template.scheduleType === 'AFTER_COMPLETION') {
+    const seriesEnd = template.endDate ? startOfDay(toZoned(template.endDate)) : null;
+    const limit = Math.min(count, template.maxOccurrences ?? count);
+    let next = moveIntoSeason(template, getNextRelativeOccurrence(template, null));
+    if (isBefore(next, fromDate)) next = moveIntoSeason(template, startOfDay(fromDate));
+
+    while (occurrences.length < limit && !(seriesEnd && isAfter(next, seriesEnd))) {
+      occurrences.push(next);
+      next = moveIntoSeason(template, getNextRelativeOccurrence(template, next));
+    }
+    return occurrences;
+  }
+
+  let from = startOfDay(fromDate);
+  let to = addMonths(from, 1);
+
+  for (let year = 0; year <= MAX_SERIES_YEARS && occurrences.length < count; year++) {
+    occurrences.push(...getOccurrencesInRange(template, from, to, customHolidays));
+
+    from = addDays(to, 1);
+    to = addYears(from, 1);
+  }
+
+  return occurrences.slice(0, count);
+}
+
+export type ScheduleWarning =
+  | 'NO_OCCURRENCES' // Nothing within MAX_SERIES_YEARS, e.g. a season that excludes every date
+  | 'SERIES_ENDED' // endDate lies in the past
+  | 'DAY_CLAMPED' // Day 29-31 does not exist in every month and moves to the month's last day
+  | 'ANCHOR_BEFORE_START' // INTERVAL counts from the anchor, not from the start date
+  | 'ANCHOR_IN_FUTURE' // INTERVAL has no occurrences before the anchor date
+  | 'WEEKEND_DAYS_MOVED' // WEEKLY on Saturday/Sunday together with a weekend rule
+  | 'DEPENDS_ON_COMPLETION'; // AFTER_COMPLETION dates shift with every completion
+
+// Configuration pitfalls worth pointing out before a template is saved
+export function getScheduleWarnings(
+  template: TaskTemplate,
+  upcoming: Date[],
+  today: Date
+): ScheduleWarning[] {
+  const warnings: ScheduleWarning[] = [];
+
+  if (upcoming.length === 0) {
+    warnings.push('NO_OCCURRENCES');
+  }
+  if (template.endDate && isBefore(startOfDay(toZoned(template.endDate)), today)) {
+    warnings.push('SERIES_ENDED');
+  }
+
+  const anchor = template.anchorDate ? startOfDay(toZoned(template.anchorDate)) : null;
+
+  switch (template.scheduleType) {
+    case 'MONTHLY':
+      if ((!template.monthlyMode || template.monthlyMode === 'SPECIFIC_DAY') && (template.monthlyDay ?? 0) > 28) {
+        warnings.push('DAY_CLAMPED');
+      }
+      break;
+    case 'YEARLY':
+      if (template.yearlyMonth && template.yearlyDay &&
+          template.yearlyDay > getDate(lastDayOfMonth(new Date(2001, template.yearlyMonth - 1, 1)))) {
+        warnings.push('DAY_CLAMPED');
+      }
+      break;
+    case 'INTERVAL':
+      if (anchor && (template.intervalUnit === 'MONTH' || template.intervalUnit === 'YEAR') && getDate(anchor) > 28) {
+        warnings.push('DAY_CLAMPED');
+      }
+      if (anchor && template.startDate && isBefore(anchor, startOfDay(toZoned(template.startDate)))) {
+        warnings.push('ANCHOR_BEFORE_START');
+      }
+      if (anchor && isAfter(anchor, today)) {
+        warnings.push('ANCHOR_IN_FUTURE');
+      }
+      break;
+    case 'WEEKLY':
+      if (template.weekendRule && parseWeeklyDays(template.weeklyDays).some(day => day === 0 || day === 6)) {
+        warnings.push('WEEKEND_DAYS_MOVED');
+      }
+      break;
+    case 'AFTER_COMPLETION':
+      warnings.push('DEPENDS_ON_COMPLETION');
+      break;
+  }
+
+  return warnings;
+}
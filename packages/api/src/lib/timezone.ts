@@ -0,0 +1,128 @@
+import { prisma } from './db.js';
+import { getTimezone, setTimezone, getDefaultTimezone, isValidTimezone } from './scheduler.js';
+import { toZonedTime, fromZonedTime } from 'date-fns-tz';
+
+// Dates were written in this timezone before it became configurable
+const LEGACY_TIMEZONE = 'Europe/Berlin';
+
+type TimezoneListener = (timezone: string) => void;
+
+const listeners: TimezoneListener[] = [];
+
+// Lets long-running work (e.g. the daily job timer) follow timezone changes
+export function onTimezoneChange(listener: TimezoneListener): void {
+  listeners.push(listener);
+}
+
+// Moves a stored day from local midnight in one timezone to local midnight in another
+function shiftDay(date: Date, fromTimezone: string, toTimezone: string): Date {
+  return fromZonedTime(toZonedTime(date, fromTimezone), toTimezone);
+}
+
+// Rewrites all stored calendar days (instance, holiday, exception, away, template and revision dates) so
+// they keep their day in the new timezone. Instants like completedAt stay as they are.
+async function migrateStoredDates(fromTimezone: string, toTimezone: string): Promise<number> {
+  const [instances, holidays, exceptions, awayPeriods, templates, revisions] = await Promise.all([
+    prisma.taskInstance.findMany({ select: { id: true, date: true, occurrenceDate: true } }),
+    prisma.holiday.findMany({ select: { id: true, date: true } }),
+    prisma.scheduleException.findMany({ select: { id: true, date: true } }),
+    prisma.awayPeriod.findMany({ select: { id: true, startDate: true, endDate: true } }),
+    prisma.taskTemplate.findMany({
+      select: { id: true, startDate: true, anchorDate: true, endDate: true, pausedAt: true, resumeOn: true, generatedThrough: true },
+    }),
+    prisma.templateRevision.findMany({ select: { id: true, effectiveFrom: true } }),
+  ]);
+
+  const shift = (date: Date | null) => (date ? shiftDay(date, fromTimezone, toTimezone) : null);
+
+  await prisma.$transaction([
+    ...instances.map(instance =>
+      prisma.taskInstance.update({
+        where: { id: instance.id },
+        data: {
+          date: shift(instance.date)!,
+          occurrenceDate: shift(instance.occurrenceDate),
+        },
+      })
+    ),
+    ...holidays.map(holiday =>
+      prisma.holiday.update({
+        where: { id: holiday.id },
+        data: { date: shift(holiday.date)! },
+      })
+    ),
+    ...exceptions.map(exception =>
+      prisma.scheduleException.update({
+        where: { id: exception.id },
+        data: { date: shift(exception.date)! },
+      })
+    ),
+    ...awayPeriods.map(period =>
+      prisma.awayPeriod.update({
+        where: { id: period.id },
+        data: {
+          startDate: shift(period.startDate)!,
+          endDate: shift(period.endDate)!,
+        },
+      })
+    ),
+    ...templates.map(template =>
+      prisma.taskTemplate.update({
+        where: { id: template.id },
+        data: {
+          startDate: shift(template.startDate),
+          anchorDate: shift(template.anchorDate),
+          endDate: shift(template.endDate),
+          pausedAt: shift(template.pausedAt),
+          resumeOn: shift(template.resumeOn),
+          generatedThrough: shift(template.generatedThrough),
+        },
+      })
+    ),
+    ...revisions.map(revision =>
+      prisma.templateRevision.update({
+        where: { id: revision.id },
+        data: { effectiveFrom: shift(revision.effectiveFrom)! },
+      })
+    ),
+  ]);
+
+  return instances.length + holidays.length + exceptions.length + awayPeriods.length + templates.length + revisions.length;
+}
+
+// Switches the app to another timezone, migrating stored dates first
+export async function changeTimezone(timezone: string): Promise<void> {
+  const current = getTimezone();
+
+  if (timezone !== current) {
+    const migrated = await migrateStoredDates(current, timezone);
+    console.log(`Timezone changed from ${current} to ${timezone}, migrated ${migrated} records`);
+  }
+
+  await prisma.appSettings.update({
+    where: { id: 'app' },
+    data: { timezone },
+  });
+
+  setTimezone(timezone);
+  listeners.forEach(listener => listener(timezone));
+}
+
+export async function initializeTimezone(): Promise<void> {
+  const settings = await prisma.appSettings.findUnique({
+    where: { id: 'app' },
+    select: { timezone: true },
+  });
+
+  if (settings?.timezone && isValidTimezone(settings.timezone)) {
+    setTimezone(settings.timezone);
+    console.log(`Using timezone ${settings.timezone}`);
+    return;
+  }
+
+  // First start with a configurable timezone: existing dates are in the legacy
+  // timezone, move them over to the default from the TZ env
+  setTimezone(LEGACY_TIMEZONE);
+  await changeTimezone(getDefaultTimezone());
+  console.log(`Timezone initialized to ${getTimezone()} (from TZ env var or default)`);
+}
@@ -0,0 +1,90 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { prisma } from '../lib/db.js';
+import { skipAwayInstances, restoreAwayInstances } from '../lib/away-periods.js';
+import { generateRelativeInstance } from '../lib/instance-generator.js';
+import { getToday, toUTC, toZoned, formatDateKey } from '../lib/scheduler.js';
+import { startOfDay, parseISO } from 'date-fns';
+import type { AwayPeriod } from '@prisma/client';
+import { z } from 'zod';
+
+const CreateAwayPeriodSchema = z.object({
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/), // YYYY-MM-DD
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/), // YYYY-MM-DD, inclusive
+  name: z.string().max(255).optional().nullable(),
+}).refine((data) => data.endDate >= data.startDate, {
+  message: 'End date must not be before the start date',
+});
+
+function formatAwayPeriod(period: AwayPeriod) {
+  return {
+    id: period.id,
+    startDate: formatDateKey(toZoned(period.startDate)),
+    endDate: formatDateKey(toZoned(period.endDate)),
+    name: period.name,
+  };
+}
+
+// Completion-relative series whose instance was skipped or reopened need a fresh look
+async function refreshRelativeTemplates(): Promise<void> {
+  const templates = await prisma.taskTemplate.findMany({
+    where: { isActive: true, scheduleType: 'AFTER_COMPLETION' },
+  });
+
+  for (const template of templates) {
+    await generateRelativeInstance(template);
+  }
+}
+
+export async function awayPeriodRoutes(fastify: FastifyInstance) {
+  // Get away periods
+  fastify.get('/away-periods', async (request: FastifyRequest, reply: FastifyReply) => {
+    const periods = await prisma.awayPeriod.findMany({
+      orderBy: { startDate: 'asc' },
+    });
+
+    return periods.map(formatAwayPeriod);
+  });
+
+  // Add an away period; instances inside it are skipped, also retroactively
+  fastify.post('/away-periods', async (request: FastifyRequest, reply: FastifyReply) => {
+    const parseResult = CreateAwayPeriodSchema.safeParse(request.body);
+
+    if (!parseResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parseResult.error.errors,
+      });
+    }
+
+    const { startDate, endDate, name } = parseResult.data;
+
+    const period = await prisma.awayPeriod.create({
+      data: {
+        startDate: toUTC(startOfDay(parseISO(startDate))),
+        endDate: toUTC(startOfDay(parseISO(endDate))),
+        name: name || null,
+      },
+    });
+
+    await skipAwayInstances(period);
+    await refreshRelativeTemplates();
+
+    return reply.status(201).send(formatAwayPeriod(period));
+  });
+
+  // Delete an away period; upcoming skipped instances are reopened
+  fastify.delete('/away-periods/:id', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+
+    const existing = await prisma.awayPeriod.findUnique({ where: { id } });
+    if (!existing) {
+      return reply.status(404).send({ error: 'Away period not found' });
+    }
+
+    await prisma.awayPeriod.delete({ where: { id } });
+
+    await restoreAwayInstances(existing, toUTC(getToday()));
+
+    return reply.status(204).send();
+  });
+}
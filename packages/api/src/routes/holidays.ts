@@ -0,0 +1,86 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { prisma } from '../lib/db.js';
+import { regenerateFutureInstances } from '../lib/instance-generator.js';
+import { toUTC, toZoned, formatDateKey } from '../lib/scheduler.js';
+import { startOfDay, parseISO } from 'date-fns';
+import { z } from 'zod';
+
+const CreateHolidaySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/), // YYYY-MM-DD
+  name: z.string().min(1).max(255),
+});
+
+// Templates on the custom calendar need their future instances re-laid (also
+// without a holiday rule, NTH_WORKDAY counts workdays on that calendar)
+async function regenerateCustomCalendarTemplates(): Promise<void> {
+  const templates = await prisma.taskTemplate.findMany({
+    where: {
+      isActive: true,
+      holidayCalendar: 'CUSTOM',
+    },
+  });
+
+  for (const template of templates) {
+    await regenerateFutureInstances(template);
+  }
+}
+
+export async function holidayRoutes(fastify: FastifyInstance) {
+  // Get custom holidays
+  fastify.get('/holidays', async (request: FastifyRequest, reply: FastifyReply) => {
+    const holidays = await prisma.holiday.findMany({
+      orderBy: { date: 'asc' },
+    });
+
+    return holidays.map(holiday => ({
+      id: holiday.id,
+      date: formatDateKey(toZoned(holiday.date)),
+      name: holiday.name,
+    }));
+  });
+
+  // Add a custom holiday
+  fastify.post('/holidays', async (request: FastifyRequest, reply: FastifyReply) => {
+    const parseResult = CreateHolidaySchema.safeParse(request.body);
+
+    if (!parseResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parseResult.error.errors,
+      });
+    }
+
+    const { date, name } = parseResult.data;
+
+    const holiday = await prisma.holiday.create({
+      data: {
+        date: toUTC(startOfDay(parseISO(date))),
+        name,
+      },
+    });
+
+    await regenerateCustomCalendarTemplates();
+
+    return reply.status(201).send({
+      id: holiday.id,
+      date: formatDateKey(toZoned(holiday.date)),
+      name: holiday.name,
+    });
+  });
+
+  // Delete a custom holiday
+  fastify.delete('/holidays/:id', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+
+    const existing = await prisma.holiday.findUnique({ where: { id } });
+    if (!existing) {
+      return reply.status(404).send({ error: 'Holiday not found' });
+    }
+
+    await prisma.holiday.delete({ where: { id } });
+
+    await regenerateCustomCalendarTemplates();
+
+    return reply.status(204).send();
+  });
+}
@@ -1,7 +1,7 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { prisma } from '../lib/db.js';
-import { getDashboardData, getInstancesForRange, generateInstancesForRange, processFailedInstances } from '../lib/instance-generator.js';
-import { getToday, toUTC, toZoned, formatDateKey } from '../lib/scheduler.js';
+import { getDashboardData, getInstancesForRange, generateInstancesForRange, generateRelativeInstance, processFailedInstances, collapseMissedInstances, rollForwardMissedInstances, findInstance, parseVirtualId, getOccurrenceDate, splitSeries, advanceGeneration, getGenerationHorizon, getDisplaySlot, toStoredDay } from '../lib/instance-generator.js';
+import { getToday, toUTC, formatDateKey } from '../lib/scheduler.js';
 import { startOfDay, parseISO, addDays } from 'date-fns';
 
 export async function instanceRoutes(fastify: FastifyInstance) {
@@ -37,10 +37,7 @@ export async function instanceRoutes(fastify: FastifyInstance) {
   fastify.post('/instances/:id/complete', async (request: FastifyRequest, reply: FastifyReply) => {
     const { id } = request.params as { id: string };
 
-    const instance = await prisma.taskInstance.findUnique({
-      where: { id },
-      include: { template: true },
-    });
+    const instance = await findInstance(id);
 
     if (!instance) {
       return reply.status(404).send({ error: 'Instance not found' });
@@ -59,7 +56,7 @@ export async function instanceRoutes(fastify: FastifyInstance) {
     }
 
     const updated = await prisma.taskInstance.update({
-      where: { id },
+      where: { id: instance.id },
       data: {
         status: 'DONE',
         completedAt: new Date(),
@@ -67,10 +64,18 @@ export async function instanceRoutes(fastify: FastifyInstance) {
       include: { template: true },
     });
 
+    // Completion-relative series: schedule the follow-up right away
+    if (updated.template.scheduleType === 'AFTER_COMPLETION' && updated.template.isActive) {
+      await generateRelativeInstance(updated.template);
+    } else if (updated.template.carryPolicy === 'CARRY_OVER_COLLAPSE') {
+      // Collapsing series: the next occurrence was held back while this one was open
+      await advanceGeneration(updated.template, getGenerationHorizon());
+    }
+
     return {
       id: updated.id,
       templateId: updated.templateId,
-      date: formatDateKey(toZoned(updated.date)),
+      date: formatDateKey(getDisplaySlot(updated).day),
       status: updated.status,
       completedAt: updated.completedAt?.toISOString() ?? null,
       template: {
@@ -84,9 +89,12 @@ export async function instanceRoutes(fastify: FastifyInstance) {
   fastify.post('/instances/:id/uncomplete', async (request: FastifyRequest, reply: FastifyReply) => {
     const { id } = request.params as { id: string };
 
-    const instance = await prisma.taskInstance.findUnique({
-      where: { id },
-    });
+    // Reopening never needs a new row: an occurrence not stored yet is not done
+    const instance = await findInstance(id, { create: false });
+
+    if (!instance && parseVirtualId(id)) {
+      return reply.status(400).send({ error: 'Instance is not completed' });
+    }
 
     if (!instance) {
       return reply.status(404).send({ error: 'Instance not found' });
@@ -96,8 +104,28 @@ export async function instanceRoutes(fastify: FastifyInstance) {
       return reply.status(400).send({ error: 'Instance is not completed' });
     }
 
+    // Completion-relative and collapsing series: the reopened instance replaces the follow-up
+    if (instance.template.scheduleType === 'AFTER_COMPLETION' || instance.template.carryPolicy === 'CARRY_OVER_COLLAPSE') {
+      await prisma.taskInstance.deleteMany({
+        where: {
+          templateId: instance.templateId,
+          status: 'OPEN',
+          id: { not: instance.id },
+        },
+      });
+
+      // Generation continues after the reopened occurrence once it is done again
+      if (instance.template.carryPolicy === 'CARRY_OVER_COLLAPSE') {
+        const occurrence = getOccurrenceDate(instance);
+        await prisma.taskTemplate.updateMany({
+          where: { id: instance.templateId, generatedThrough: { gt: occurrence } },
+          data: { generatedThrough: occurrence },
+        });
+      }
+    }
+
     const updated = await prisma.taskInstance.update({
-      where: { id },
+      where: { id: instance.id },
       data: {
         status: 'OPEN',
         completedAt: null,
@@ -108,7 +136,7 @@ export async function instanceRoutes(fastify: FastifyInstance) {
     return {
       id: updated.id,
       templateId: updated.templateId,
-      date: formatDateKey(toZoned(updated.date)),
+      date: formatDateKey(getDisplaySlot(updated).day),
       status: updated.status,
       completedAt: null,
       template: {
@@ -123,10 +151,7 @@ export async function instanceRoutes(fastify: FastifyInstance) {
     const { id } = request.params as { id: string };
     const { toDate } = request.body as { toDate?: string };
 
-    const instance = await prisma.taskInstance.findUnique({
-      where: { id },
-      include: { template: true },
-    });
+    const instance = await findInstance(id);
 
     if (!instance) {
       return reply.status(404).send({ error: 'Instance not found' });
@@ -150,49 +175,20 @@ export async function instanceRoutes(fastify: FastifyInstance) {
     }
 
     // newDate is already a local start-of-day, convert directly to UTC
-    const newDateUTC = toUTC(newDate);
-
-    // Store the original date before updating
-    const originalDateUTC = instance.date;
-
-    // Use transaction to ensure atomicity - placeholder must be created before/with the move
-    const updated = await prisma.$transaction(async (tx) => {
-      // For recurring templates, create DELETED placeholder at original date FIRST
-      // This prevents the generator from recreating the instance at the original date
-      if (instance.template.scheduleType !== 'ONCE') {
-        const existingPlaceholder = await tx.taskInstance.findFirst({
-          where: {
-            templateId: instance.templateId,
-            date: originalDateUTC,
-            status: 'DELETED',
-          },
-        });
+    // (zoned templates keep their own day, moved by the same number of days)
+    const newDateUTC = toUTC(toStoredDay(instance, newDate));
 
-        if (!existingPlaceholder) {
-          await tx.taskInstance.create({
-            data: {
-              templateId: instance.templateId,
-              date: originalDateUTC,
-              status: 'DELETED',
-            },
-          });
-        }
-      }
-
-      // Now update the instance date
-      return tx.taskInstance.update({
-        where: { id },
-        data: {
-          date: newDateUTC,
-        },
-        include: { template: true },
-      });
+    // The instance keeps its occurrenceDate, so the generator won't recreate it there
+    const updated = await prisma.taskInstance.update({
+      where: { id: instance.id },
+      data: { date: newDateUTC },
+      include: { template: true },
     });
 
     return {
       id: updated.id,
       templateId: updated.templateId,
-      date: formatDateKey(toZoned(updated.date)),
+      date: formatDateKey(getDisplaySlot(updated).day),
       status: updated.status,
       template: {
         id: updated.template.id,
@@ -210,10 +206,7 @@ export async function instanceRoutes(fastify: FastifyInstance) {
       date?: string;
     };
 
-    const instance = await prisma.taskInstance.findUnique({
-      where: { id },
-      include: { template: true },
-    });
+    const instance = await findInstance(id);
 
     if (!instance) {
       return reply.status(404).send({ error: 'Instance not found' });
@@ -243,52 +236,24 @@ export async function instanceRoutes(fastify: FastifyInstance) {
     if (date) {
       try {
         const newDate = startOfDay(parseISO(date));
-        const newDateUTC = toUTC(newDate);
+        const newDateUTC = toUTC(toStoredDay(instance, newDate));
         updateData.date = newDateUTC;
       } catch {
         return reply.status(400).send({ error: 'Invalid date format. Use YYYY-MM-DD' });
       }
     }
 
-    // Store the original date before updating (for creating DELETED placeholder)
-    const originalDateUTC = instance.date;
-    const isDateChanging = updateData.date && updateData.date.getTime() !== originalDateUTC.getTime();
-
-    // Use transaction to ensure atomicity - placeholder must be created before/with the move
-    const updated = await prisma.$transaction(async (tx) => {
-      // For recurring templates with date change, create DELETED placeholder at original date FIRST
-      if (isDateChanging && instance.template.scheduleType !== 'ONCE') {
-        const existingPlaceholder = await tx.taskInstance.findFirst({
-          where: {
-            templateId: instance.templateId,
-            date: originalDateUTC,
-            status: 'DELETED',
-          },
-        });
-
-        if (!existingPlaceholder) {
-          await tx.taskInstance.create({
-            data: {
-              templateId: instance.templateId,
-              date: originalDateUTC,
-              status: 'DELETED',
-            },
-          });
-        }
-      }
-
-      // Now update the instance
-      return tx.taskInstance.update({
-        where: { id },
-        data: updateData,
-        include: { template: true },
-      });
+    // A new date keeps the occurrenceDate, which marks the original day as taken
+    const updated = await prisma.taskInstance.update({
+      where: { id: instance.id },
+      data: updateData,
+      include: { template: true },
     });
 
     return {
       id: updated.id,
       templateId: updated.templateId,
-      date: formatDateKey(toZoned(updated.date)),
+      date: formatDateKey(getDisplaySlot(updated).day),
       status: updated.status,
       completedAt: updated.completedAt?.toISOString() ?? null,
       customTitle: updated.customTitle,
@@ -301,13 +266,50 @@ export async function instanceRoutes(fastify: FastifyInstance) {
     };
   });
 
+  // Edit this and all following occurrences: continues the series from this
+  // instance on as a new template with the given title/notes
+  fastify.post('/instances/:id/split', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+    const { title, notes } = (request.body ?? {}) as {
+      title?: string;
+      notes?: string | null;
+    };
+
+    const instance = await findInstance(id);
+
+    if (!instance) {
+      return reply.status(404).send({ error: 'Instance not found' });
+    }
+
+    if (instance.status === 'DELETED') {
+      return reply.status(400).send({ error: 'Cannot split at a deleted instance' });
+    }
+
+    if (instance.template.scheduleType === 'ONCE') {
+      return reply.status(400).send({ error: 'A one-time task has no following occurrences' });
+    }
+
+    if (title !== undefined && !title.trim()) {
+      return reply.status(400).send({ error: 'Title cannot be empty' });
+    }
+
+    const fork = await splitSeries(instance, {
+      title: title?.trim(),
+      notes: notes === '' ? null : notes,
+    });
+
+    if (!fork) {
+      return reply.status(400).send({ error: 'The series has no occurrences left to continue' });
+    }
+
+    return reply.status(201).send(fork);
+  });
+
   // Delete a single instance (soft delete - marks as DELETED)
   fastify.delete('/instances/:id', async (request: FastifyRequest, reply: FastifyReply) => {
     const { id } = request.params as { id: string };
 
-    const instance = await prisma.taskInstance.findUnique({
-      where: { id },
-    });
+    const instance = await findInstance(id);
 
     if (!instance) {
       return reply.status(404).send({ error: 'Instance not found' });
@@ -318,7 +320,7 @@ export async function instanceRoutes(fastify: FastifyInstance) {
     }
 
     await prisma.taskInstance.update({
-      where: { id },
+      where: { id: instance.id },
       data: {
         status: 'DELETED',
       },
@@ -347,6 +349,8 @@ export async function instanceRoutes(fastify: FastifyInstance) {
 
     const generated = await generateInstancesForRange(startDate, endDate);
     const failed = await processFailedInstances();
+    await collapseMissedInstances();
+    await rollForwardMissedInstances();
 
     return {
       message: 'Instances rebuilt successfully',
@@ -1,9 +1,12 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { prisma } from '../lib/db.js';
+import { changeTimezone } from '../lib/timezone.js';
+import { getTimezone, isValidTimezone } from '../lib/scheduler.js';
 import { z } from 'zod';
 
 const UpdateSettingsSchema = z.object({
   locale: z.enum(['en', 'de']).optional(),
+  timezone: z.string().refine(isValidTimezone, { message: 'Unknown timezone' }).optional(), // IANA name
 });
 
 export async function settingsRoutes(fastify: FastifyInstance) {
@@ -16,6 +19,7 @@ export async function settingsRoutes(fastify: FastifyInstance) {
 
     return {
       locale: settings?.locale || 'en',
+      timezone: getTimezone(),
     };
   });
 
@@ -35,7 +39,12 @@ export async function settingsRoutes(fastify: FastifyInstance) {
       });
     }
 
-    const { locale } = parseResult.data;
+    const { locale, timezone } = parseResult.data;
+
+    // Stored dates are migrated to the new timezone
+    if (timezone && timezone !== getTimezone()) {
+      await changeTimezone(timezone);
+    }
 
     const updated = await prisma.appSettings.update({
       where: { id: 'app' },
@@ -47,6 +56,7 @@ export async function settingsRoutes(fastify: FastifyInstance) {
 
     return {
       locale: updated.locale,
+      timezone: getTimezone(),
     };
   });
 }
@@ -1,15 +1,150 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { prisma } from '../lib/db.js';
-import { CreateTemplateSchema, UpdateTemplateSchema, DuplicateTemplateSchema } from '../schemas/template.js';
-import { generateInstancesForTemplate } from '../lib/instance-generator.js';
-import { getToday, getTomorrow } from '../lib/scheduler.js';
-import { addMonths } from 'date-fns';
+import { CreateTemplateSchema, UpdateTemplateSchema, DuplicateTemplateSchema, PauseTemplateSchema, PreviewQuerySchema, type CreateTemplateInput } from '../schemas/template.js';
+import { advanceGeneration, getGenerationHorizon, regenerateFutureInstances, getCustomHolidayKeys, pauseTemplate, resumeTemplate } from '../lib/instance-generator.js';
+import {
+  getToday,
+  getTomorrow,
+  getTemplateToday,
+  getUpcomingOccurrences,
+  getScheduleWarnings,
+  toUTC,
+  toZoned,
+  parseDateInput,
+  formatDateKey,
+  isRevisable,
+  serializeRevisionSchedule,
+  type TemplateWithExceptions,
+} from '../lib/scheduler.js';
+import { isAfter, isBefore, startOfDay, parseISO } from 'date-fns';
+import type { Prisma, ScheduleException, TaskTemplate, TemplateRevision } from '@prisma/client';
+
+// Replaces a template's exception dates; lists left undefined stay untouched
+async function saveScheduleExceptions(
+  templateId: string,
+  excludedDates?: string[],
+  extraDates?: string[]
+): Promise<void> {
+  const lists = [
+    { kind: 'EXCLUDE', dates: excludedDates },
+    { kind: 'EXTRA', dates: extraDates },
+  ];
+
+  for (const { kind, dates } of lists) {
+    if (!dates) continue;
+
+    await prisma.$transaction([
+      prisma.scheduleException.deleteMany({ where: { templateId, kind } }),
+      ...[...new Set(dates)].map(date =>
+        prisma.scheduleException.create({
+          data: {
+            templateId,
+            date: toUTC(startOfDay(parseISO(date))),
+            kind,
+          },
+        })
+      ),
+    ]);
+  }
+}
+
+function formatScheduleExceptions(exceptions: ScheduleException[]) {
+  const datesOf = (kind: string) => exceptions
+    .filter(e => e.kind === kind)
+    .map(e => formatDateKey(toZoned(e.date)))
+    .sort();
+
+  return {
+    excludedDates: datesOf('EXCLUDE'),
+    extraDates: datesOf('EXTRA'),
+  };
+}
+
+// Compares a sent date (ISO string of the calendar day) with a stored day;
+// undefined means "not sent" and counts as unchanged
+function isSameDate(value: string | null | undefined, existing: Date | null): boolean {
+  if (value === undefined) return true;
+  return (value ? value.slice(0, 10) : null) === (existing ? formatDateKey(toZoned(existing)) : null);
+}
+
+// Undefined means "not sent" and counts as unchanged
+function isSameDateList(dates: string[] | undefined, existing: string[]): boolean {
+  return dates === undefined || [...new Set(dates)].sort().join(',') === existing.join(',');
+}
+
+// Records a schedule change from effectiveFrom on. Without revisions so far, the
+// previous schedule becomes the first one; later revisions are replaced.
+async function saveRevision(previous: TaskTemplate, updated: TaskTemplate, effectiveFrom: Date): Promise<void> {
+  const templateId = updated.id;
+  const operations: Prisma.PrismaPromise<unknown>[] = [];
+
+  const firstDay = previous.startDate ?? toUTC(startOfDay(toZoned(previous.createdAt)));
+  const hasRevisions = await prisma.templateRevision.count({ where: { templateId } }) > 0;
+  if (!hasRevisions && isBefore(firstDay, effectiveFrom)) {
+    operations.push(prisma.templateRevision.create({
+      data: { templateId, effectiveFrom: firstDay, schedule: serializeRevisionSchedule(previous) },
+    }));
+  }
+
+  await prisma.$transaction([
+    ...operations,
+    prisma.templateRevision.deleteMany({ where: { templateId, effectiveFrom: { gte: effectiveFrom } } }),
+    prisma.templateRevision.create({
+      data: { templateId, effectiveFrom, schedule: serializeRevisionSchedule(updated) },
+    }),
+  ]);
+}
+
+function formatRevision(revision: TemplateRevision) {
+  return {
+    id: revision.id,
+    effectiveFrom: formatDateKey(toZoned(revision.effectiveFrom)),
+    createdAt: revision.createdAt,
+    ...JSON.parse(revision.schedule),
+  };
+}
+
+// Column values of a template from a validated create body
+function buildTemplateData(data: CreateTemplateInput) {
+  return {
+    title: data.title,
+    notes: data.notes ?? null,
+    carryPolicy: data.carryPolicy,
+    graceHours: data.graceHours ?? null,
+    scheduleType: data.scheduleType,
+    startDate: data.startDate ? parseDateInput(data.startDate) : null,
+    anchorDate: data.anchorDate ? parseDateInput(data.anchorDate) : null,
+    endDate: data.endDate ? parseDateInput(data.endDate) : null,
+    maxOccurrences: data.maxOccurrences ?? null,
+    intervalUnit: data.intervalUnit ?? null,
+    intervalValue: data.intervalValue ?? null,
+    weeklyDays: data.weeklyDays ?? null,
+    rotationWeeks: data.rotationWeeks ?? null,
+    monthlyDay: data.monthlyDay ?? null,
+    monthlyMode: data.monthlyMode ?? null,
+    monthlyOrdinal: data.monthlyOrdinal ?? null,
+    monthlyWeekday: data.monthlyWeekday ?? null,
+    yearlyMonth: data.yearlyMonth ?? null,
+    yearlyDay: data.yearlyDay ?? null,
+    rrule: data.rrule ?? null,
+    holidayCalendar: data.holidayCalendar ?? null,
+    holidayRule: data.holidayRule ?? null,
+    weekendRule: data.weekendRule ?? null,
+    seasonStart: data.seasonStart ?? null,
+    seasonEnd: data.seasonEnd ?? null,
+    dueTime: data.dueTime ?? null,
+    timezone: data.timezone ?? null,
+    tags: data.tags ?? null,
+    color: data.color ?? null,
+    sortOrder: data.sortOrder,
+  };
+}
 
 export async function templateRoutes(fastify: FastifyInstance) {
   // Get all templates
   fastify.get('/templates', async (request: FastifyRequest, reply: FastifyReply) => {
     const { status, type, search } = request.query as {
-      status?: 'active' | 'archived' | 'all';
+      status?: 'active' | 'paused' | 'archived' | 'all';
       type?: string;
       search?: string;
     };
@@ -18,6 +153,10 @@ export async function templateRoutes(fastify: FastifyInstance) {
 
     if (status === 'active') {
       where.isActive = true;
+      where.pausedAt = null;
+    } else if (status === 'paused') {
+      where.isActive = true;
+      where.pausedAt = { not: null };
     } else if (status === 'archived') {
       where.isActive = false;
     }
@@ -57,6 +196,7 @@ export async function templateRoutes(fastify: FastifyInstance) {
           orderBy: { date: 'desc' },
           take: 50,
         },
+        exceptions: true,
       },
     });
 
@@ -64,7 +204,27 @@ export async function templateRoutes(fastify: FastifyInstance) {
       return reply.status(404).send({ error: 'Template not found' });
     }
 
-    return template;
+    const { exceptions, ...rest } = template;
+    return {
+      ...rest,
+      ...formatScheduleExceptions(exceptions),
+    };
+  });
+
+  // Schedule revisions of a template, oldest first
+  fastify.get('/templates/:id/revisions', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+
+    const template = await prisma.taskTemplate.findUnique({
+      where: { id },
+      include: { revisions: { orderBy: { effectiveFrom: 'asc' } } },
+    });
+
+    if (!template) {
+      return reply.status(404).send({ error: 'Template not found' });
+    }
+
+    return template.revisions.map(formatRevision);
   });
 
   // Create template
@@ -82,37 +242,71 @@ export async function templateRoutes(fastify: FastifyInstance) {
 
     // For recurring templates, default startDate to today if not provided
     const today = getToday();
-    const defaultStartDate = data.scheduleType !== 'ONCE' && !data.startDate ? today : null;
+    const defaultStartDate = data.scheduleType !== 'ONCE' && !data.startDate ? toUTC(today) : null;
 
     const template = await prisma.taskTemplate.create({
       data: {
-        title: data.title,
-        notes: data.notes ?? null,
-        carryPolicy: data.carryPolicy,
-        scheduleType: data.scheduleType,
-        startDate: data.startDate ? new Date(data.startDate) : defaultStartDate,
-        anchorDate: data.anchorDate ? new Date(data.anchorDate) : null,
-        intervalUnit: data.intervalUnit ?? null,
-        intervalValue: data.intervalValue ?? null,
-        weeklyDays: data.weeklyDays ?? null,
-        monthlyDay: data.monthlyDay ?? null,
-        monthlyMode: data.monthlyMode ?? null,
-        yearlyMonth: data.yearlyMonth ?? null,
-        yearlyDay: data.yearlyDay ?? null,
-        dueTime: data.dueTime ?? null,
-        tags: data.tags ?? null,
-        color: data.color ?? null,
-        sortOrder: data.sortOrder,
+        ...buildTemplateData(data),
+        startDate: data.startDate ? parseDateInput(data.startDate) : defaultStartDate,
       },
     });
 
-    // Generate initial instances for today and next month
-    const endDate = addMonths(today, 1);
-    await generateInstancesForTemplate(template, today, endDate);
+    await saveScheduleExceptions(template.id, data.excludedDates, data.extraDates);
+
+    // Generate initial instances up to the horizon
+    await advanceGeneration(template, getGenerationHorizon());
 
     return reply.status(201).send(template);
   });
 
+  // Preview the next occurrences of an unsaved template
+  fastify.post('/templates/preview', async (request: FastifyRequest, reply: FastifyReply) => {
+    const parseResult = CreateTemplateSchema.safeParse(request.body);
+    const queryResult = PreviewQuerySchema.safeParse(request.query);
+
+    if (!parseResult.success || !queryResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: [
+          ...(parseResult.success ? [] : parseResult.error.errors),
+          ...(queryResult.success ? [] : queryResult.error.errors),
+        ],
+      });
+    }
+
+    const data = parseResult.data;
+    const now = new Date();
+    const template: TemplateWithExceptions = {
+      id: 'preview',
+      isActive: true,
+      pausedAt: null,
+      resumeOn: null,
+      generatedThrough: null,
+      createdAt: now,
+      updatedAt: now,
+      ...buildTemplateData(data),
+      exceptions: [
+        ...(data.excludedDates ?? []).map(date => ({ date: toUTC(startOfDay(parseISO(date))), kind: 'EXCLUDE' })),
+        ...(data.extraDates ?? []).map(date => ({ date: toUTC(startOfDay(parseISO(date))), kind: 'EXTRA' })),
+      ],
+    };
+
+    // Same default as on create
+    const today = getTemplateToday(template);
+    if (!template.startDate && data.scheduleType !== 'ONCE') {
+      template.startDate = toUTC(today);
+    }
+
+    const customHolidays = template.holidayCalendar === 'CUSTOM' ? await getCustomHolidayKeys() : undefined;
+    const dates = getUpcomingOccurrences(template, today, queryResult.data.count, customHolidays);
+
+    return {
+      dates: dates.map(formatDateKey),
+      // Warn about the start date only if the user picked one
+      warnings: getScheduleWarnings(data.startDate ? template : { ...template, startDate: null }, dates, today),
+    };
+  });
+
   // Update template
   fastify.put('/templates/:id', async (request: FastifyRequest, reply: FastifyReply) => {
     const { id } = request.params as { id: string };
@@ -133,71 +327,116 @@ export async function templateRoutes(fastify: FastifyInstance) {
       return reply.status(404).send({ error: 'Template not found' });
     }
 
+    // Schedule changes take effect today unless a later day is given
+    const today = toUTC(getToday());
+    const effectiveFrom = data.effectiveFrom ? parseDateInput(data.effectiveFrom) : today;
+    if (isBefore(effectiveFrom, today)) {
+      return reply.status(400).send({ error: 'Schedule changes cannot take effect in the past' });
+    }
+    if (isAfter(effectiveFrom, today) && !(isRevisable(existing.scheduleType) && isRevisable(data.scheduleType ?? existing.scheduleType))) {
+      return reply.status(400).send({ error: 'Only calendar schedules can change from a later day' });
+    }
+
     const updateData: any = {};
 
     if (data.title !== undefined) updateData.title = data.title;
     if (data.notes !== undefined) updateData.notes = data.notes;
     if (data.carryPolicy !== undefined) updateData.carryPolicy = data.carryPolicy;
+    if (data.graceHours !== undefined) updateData.graceHours = data.graceHours;
     if (data.scheduleType !== undefined) updateData.scheduleType = data.scheduleType;
 
     // Handle startDate - default to today for recurring templates if not set
     if (data.startDate !== undefined) {
-      updateData.startDate = data.startDate ? new Date(data.startDate) : null;
+      updateData.startDate = data.startDate ? parseDateInput(data.startDate) : null;
     }
     // If changing to a recurring type and no startDate is set (neither in request nor existing), default to today
     const newScheduleType = data.scheduleType ?? existing.scheduleType;
     const newStartDate = data.startDate !== undefined ? data.startDate : existing.startDate;
     if (newScheduleType !== 'ONCE' && !newStartDate) {
-      updateData.startDate = getToday();
+      updateData.startDate = toUTC(getToday());
     }
-    if (data.anchorDate !== undefined) updateData.anchorDate = data.anchorDate ? new Date(data.anchorDate) : null;
+    if (data.anchorDate !== undefined) updateData.anchorDate = data.anchorDate ? parseDateInput(data.anchorDate) : null;
+    if (data.endDate !== undefined) updateData.endDate = data.endDate ? parseDateInput(data.endDate) : null;
+    if (data.maxOccurrences !== undefined) updateData.maxOccurrences = data.maxOccurrences;
     if (data.intervalUnit !== undefined) updateData.intervalUnit = data.intervalUnit;
     if (data.intervalValue !== undefined) updateData.intervalValue = data.intervalValue;
     if (data.weeklyDays !== undefined) updateData.weeklyDays = data.weeklyDays;
+    if (data.rotationWeeks !== undefined) updateData.rotationWeeks = data.rotationWeeks;
     if (data.monthlyDay !== undefined) updateData.monthlyDay = data.monthlyDay;
     if (data.monthlyMode !== undefined) updateData.monthlyMode = data.monthlyMode;
+    if (data.monthlyOrdinal !== undefined) updateData.monthlyOrdinal = data.monthlyOrdinal;
+    if (data.monthlyWeekday !== undefined) updateData.monthlyWeekday = data.monthlyWeekday;
     if (data.yearlyMonth !== undefined) updateData.yearlyMonth = data.yearlyMonth;
     if (data.yearlyDay !== undefined) updateData.yearlyDay = data.yearlyDay;
+    if (data.rrule !== undefined) updateData.rrule = data.rrule;
+    if (data.holidayCalendar !== undefined) updateData.holidayCalendar = data.holidayCalendar;
+    if (data.holidayRule !== undefined) updateData.holidayRule = data.holidayRule;
+    if (data.weekendRule !== undefined) updateData.weekendRule = data.weekendRule;
+    if (data.seasonStart !== undefined) updateData.seasonStart = data.seasonStart;
+    if (data.seasonEnd !== undefined) updateData.seasonEnd = data.seasonEnd;
     if (data.dueTime !== undefined) updateData.dueTime = data.dueTime;
+    if (data.timezone !== undefined) updateData.timezone = data.timezone;
     if (data.tags !== undefined) updateData.tags = data.tags;
     if (data.color !== undefined) updateData.color = data.color;
     if (data.sortOrder !== undefined) updateData.sortOrder = data.sortOrder;
     if (data.isActive !== undefined) updateData.isActive = data.isActive;
 
     // Check if schedule-relevant fields actually changed (compare against existing values)
+    const existingExceptions = formatScheduleExceptions(
+      await prisma.scheduleException.findMany({ where: { templateId: id } })
+    );
+
     const scheduleFieldsChanged =
       (data.scheduleType !== undefined && data.scheduleType !== existing.scheduleType) ||
-      (data.startDate !== undefined && data.startDate !== (existing.startDate?.toISOString().split('T')[0] ?? null)) ||
-      (data.anchorDate !== undefined && data.anchorDate !== (existing.anchorDate?.toISOString().split('T')[0] ?? null)) ||
+      !isSameDate(data.startDate, existing.startDate) ||
+      !isSameDate(data.anchorDate, existing.anchorDate) ||
+      !isSameDate(data.endDate, existing.endDate) ||
+      (data.maxOccurrences !== undefined && data.maxOccurrences !== existing.maxOccurrences) ||
       (data.intervalUnit !== undefined && data.intervalUnit !== existing.intervalUnit) ||
       (data.intervalValue !== undefined && data.intervalValue !== existing.intervalValue) ||
       (data.weeklyDays !== undefined && data.weeklyDays !== existing.weeklyDays) ||
+      (data.rotationWeeks !== undefined && data.rotationWeeks !== existing.rotationWeeks) ||
       (data.monthlyDay !== undefined && data.monthlyDay !== existing.monthlyDay) ||
       (data.monthlyMode !== undefined && data.monthlyMode !== existing.monthlyMode) ||
+      (data.monthlyOrdinal !== undefined && data.monthlyOrdinal !== existing.monthlyOrdinal) ||
+      (data.monthlyWeekday !== undefined && data.monthlyWeekday !== existing.monthlyWeekday) ||
       (data.yearlyMonth !== undefined && data.yearlyMonth !== existing.yearlyMonth) ||
-      (data.yearlyDay !== undefined && data.yearlyDay !== existing.yearlyDay);
+      (data.yearlyDay !== undefined && data.yearlyDay !== existing.yearlyDay) ||
+      (data.rrule !== undefined && data.rrule !== existing.rrule) ||
+      (data.holidayCalendar !== undefined && data.holidayCalendar !== existing.holidayCalendar) ||
+      (data.holidayRule !== undefined && data.holidayRule !== existing.holidayRule) ||
+      (data.weekendRule !== undefined && data.weekendRule !== existing.weekendRule) ||
+      (data.seasonStart !== undefined && data.seasonStart !== existing.seasonStart) ||
+      (data.seasonEnd !== undefined && data.seasonEnd !== existing.seasonEnd) ||
+      // Each due time slot has its own instances
+      (data.dueTime !== undefined && data.dueTime !== existing.dueTime) ||
+      (data.timezone !== undefined && data.timezone !== existing.timezone) ||
+      !isSameDateList(data.excludedDates, existingExceptions.excludedDates) ||
+      !isSameDateList(data.extraDates, existingExceptions.extraDates);
 
     const template = await prisma.taskTemplate.update({
       where: { id },
       data: updateData,
     });
 
-    // If schedule changed, delete future OPEN instances and regenerate
-    if (scheduleFieldsChanged) {
-      const today = getToday();
-
-      // Delete all future OPEN instances (keep DONE and FAILED as history)
-      await prisma.taskInstance.deleteMany({
-        where: {
-          templateId: id,
-          date: { gte: today },
-          status: 'OPEN',
-        },
-      });
+    await saveScheduleExceptions(id, data.excludedDates, data.extraDates);
 
-      // Regenerate instances for today and next month
-      const endDate = addMonths(today, 1);
-      await generateInstancesForTemplate(template, today, endDate);
+    // Days before effectiveFrom keep the previous schedule; ONCE and AFTER_COMPLETION
+    // have a single schedule
+    if (serializeRevisionSchedule(existing) !== serializeRevisionSchedule(template)) {
+      if (isRevisable(existing.scheduleType) && isRevisable(template.scheduleType)) {
+        await saveRevision(existing, template, effectiveFrom);
+      } else {
+        await prisma.templateRevision.deleteMany({ where: { templateId: id } });
+      }
+    }
+
+    // If schedule changed, bring future OPEN instances in line with it;
+    // otherwise catch up in case the template was reactivated
+    if (scheduleFieldsChanged) {
+      await regenerateFutureInstances(template);
+    } else {
+      await advanceGeneration(template, getGenerationHorizon());
     }
 
     return template;
@@ -227,7 +466,9 @@ export async function templateRoutes(fastify: FastifyInstance) {
       title: newTitle || `${original.title} (Kopie)`,
       notes: original.notes,
       carryPolicy: original.carryPolicy,
+      graceHours: original.graceHours,
       dueTime: original.dueTime,
+      timezone: original.timezone,
       tags: original.tags,
       color: original.color,
       sortOrder: original.sortOrder,
@@ -237,13 +478,29 @@ export async function templateRoutes(fastify: FastifyInstance) {
       duplicateData.scheduleType = original.scheduleType;
       duplicateData.startDate = original.startDate;
       duplicateData.anchorDate = original.anchorDate;
+      duplicateData.endDate = original.endDate;
+      duplicateData.maxOccurrences = original.maxOccurrences;
       duplicateData.intervalUnit = original.intervalUnit;
       duplicateData.intervalValue = original.intervalValue;
       duplicateData.weeklyDays = original.weeklyDays;
+      duplicateData.rotationWeeks = original.rotationWeeks;
       duplicateData.monthlyDay = original.monthlyDay;
       duplicateData.monthlyMode = original.monthlyMode;
+      duplicateData.monthlyOrdinal = original.monthlyOrdinal;
+      duplicateData.monthlyWeekday = original.monthlyWeekday;
       duplicateData.yearlyMonth = original.yearlyMonth;
       duplicateData.yearlyDay = original.yearlyDay;
+      duplicateData.rrule = original.rrule;
+      duplicateData.holidayCalendar = original.holidayCalendar;
+      duplicateData.holidayRule = original.holidayRule;
+      duplicateData.weekendRule = original.weekendRule;
+      duplicateData.seasonStart = original.seasonStart;
+      duplicateData.seasonEnd = original.seasonEnd;
+
+      const exceptions = await prisma.scheduleException.findMany({ where: { templateId: id } });
+      duplicateData.exceptions = {
+        create: exceptions.map(e => ({ date: e.date, kind: e.kind })),
+      };
     } else {
       // Create as ONCE task without date (needs to be set)
       duplicateData.scheduleType = 'ONCE';
@@ -256,14 +513,59 @@ export async function templateRoutes(fastify: FastifyInstance) {
 
     // Generate instances if schedule is included
     if (includeSchedule) {
-      const today = getToday();
-      const endDate = addMonths(today, 1);
-      await generateInstancesForTemplate(duplicate, today, endDate);
+      await advanceGeneration(duplicate, getGenerationHorizon());
     }
 
     return reply.status(201).send(duplicate);
   });
 
+  // Pause template: no new instances, upcoming open ones are hidden
+  fastify.post('/templates/:id/pause', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+
+    const parseResult = PauseTemplateSchema.safeParse(request.body || {});
+
+    if (!parseResult.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: parseResult.error.errors,
+      });
+    }
+
+    const existing = await prisma.taskTemplate.findUnique({ where: { id } });
+    if (!existing) {
+      return reply.status(404).send({ error: 'Template not found' });
+    }
+
+    if (!existing.isActive) {
+      return reply.status(400).send({ error: 'Cannot pause an archived template' });
+    }
+
+    const { resumeOn } = parseResult.data;
+    const resumeDay = resumeOn ? startOfDay(parseISO(resumeOn)) : null;
+    if (resumeDay && !isAfter(resumeDay, getToday())) {
+      return reply.status(400).send({ error: 'Resume date must be in the future' });
+    }
+
+    return pauseTemplate(existing, resumeDay);
+  });
+
+  // Resume a paused template right away
+  fastify.post('/templates/:id/resume', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = request.params as { id: string };
+
+    const existing = await prisma.taskTemplate.findUnique({ where: { id } });
+    if (!existing) {
+      return reply.status(404).send({ error: 'Template not found' });
+    }
+
+    if (!existing.pausedAt) {
+      return reply.status(400).send({ error: 'Template is not paused' });
+    }
+
+    return resumeTemplate(existing);
+  });
+
   // Delete (archive) template
   fastify.delete('/templates/:id', async (request: FastifyRequest, reply: FastifyReply) => {
     const { id } = request.params as { id: string };
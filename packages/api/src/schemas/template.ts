@@ -1,25 +1,67 @@
 import { z } from 'zod';
+import { isValidRRule, isValidTimezone } from '../lib/scheduler.js';
+import { HOLIDAY_CALENDARS } from '../lib/holidays.js';
 
-export const CarryPolicySchema = z.enum(['FAIL_ON_MISS', 'CARRY_OVER_STACK']);
-export const ScheduleTypeSchema = z.enum(['ONCE', 'DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY', 'INTERVAL']);
+export const CarryPolicySchema = z.enum(['FAIL_ON_MISS', 'CARRY_OVER_STACK', 'CARRY_OVER_COLLAPSE', 'ROLL_FORWARD']);
+export const ScheduleTypeSchema = z.enum(['ONCE', 'DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY', 'INTERVAL', 'RRULE', 'AFTER_COMPLETION', 'ROTATION']);
 export const IntervalUnitSchema = z.enum(['DAY', 'WEEK', 'MONTH', 'YEAR']);
-export const MonthlyModeSchema = z.enum(['FIRST_DAY', 'LAST_DAY', 'SPECIFIC_DAY']);
+export const HolidayCalendarSchema = z.enum(HOLIDAY_CALENDARS);
+export const HolidayRuleSchema = z.enum(['SKIP', 'PREVIOUS_WORKDAY', 'NEXT_WORKDAY']);
+export const MonthlyModeSchema = z.enum(['FIRST_DAY', 'LAST_DAY', 'SPECIFIC_DAY', 'NTH_WEEKDAY', 'NTH_WORKDAY']);
+export const WeekendRuleSchema = z.enum(['PREVIOUS_FRIDAY', 'NEXT_MONDAY', 'NEAREST_WEEKDAY']);
+export const DateKeySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/); // YYYY-MM-DD
+export const SeasonDaySchema = z.string().regex(/^(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/); // "MM-DD"
+
+export const RotationWeekSchema = z.object({
+  days: z.array(z.number().int().min(0).max(6)).max(7), // 0=Sunday, empty = week off
+  title: z.string().max(255).optional().nullable(), // Variant title for this week
+  notes: z.string().max(2000).optional().nullable(),
+});
+
+// 2-12 weeks with at least one due day
+export const RotationWeeksSchema = z.array(RotationWeekSchema).min(2).max(12)
+  .refine((weeks) => weeks.some(week => week.days.length > 0));
+
+// rotationWeeks is stored as a JSON string
+function isValidRotation(value: string): boolean {
+  try {
+    return RotationWeeksSchema.safeParse(JSON.parse(value)).success;
+  } catch {
+    return false;
+  }
+}
 
 const BaseTemplateSchema = z.object({
   title: z.string().min(1).max(255),
   notes: z.string().max(2000).optional().nullable(),
   carryPolicy: CarryPolicySchema.default('CARRY_OVER_STACK'),
+  graceHours: z.number().int().min(1).max(336).optional().nullable(), // FAIL_ON_MISS: hours a missed instance stays completable
   scheduleType: ScheduleTypeSchema,
   startDate: z.string().datetime().optional().nullable(), // When the task becomes active (default: today)
   anchorDate: z.string().datetime().optional().nullable(), // ISO string for INTERVAL
+  endDate: z.string().datetime().optional().nullable(), // Last possible due date of the series
+  maxOccurrences: z.number().int().min(1).max(1000).optional().nullable(), // Series ends after this many occurrences
   intervalUnit: IntervalUnitSchema.optional().nullable(),
   intervalValue: z.number().int().min(1).max(365).optional().nullable(),
   weeklyDays: z.string().regex(/^[0-6](,[0-6])*$/).optional().nullable(), // "0,1,2" format
+  rotationWeeks: z.string().max(20000).refine(isValidRotation, { message: 'Invalid rotation' }).optional().nullable(), // JSON, see RotationWeekSchema
   monthlyDay: z.number().int().min(1).max(31).optional().nullable(),
   monthlyMode: MonthlyModeSchema.optional().nullable(),
+  monthlyOrdinal: z.number().int().refine((n) => n === -1 || (n >= 1 && n <= 4)).optional().nullable(), // 1-4, -1 = last
+  monthlyWeekday: z.number().int().min(0).max(6).optional().nullable(), // 0=Sunday
   yearlyMonth: z.number().int().min(1).max(12).optional().nullable(),
   yearlyDay: z.number().int().min(1).max(31).optional().nullable(),
-  dueTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/).optional().nullable(), // HH:mm format
+  rrule: z.string().max(500).refine(isValidRRule, { message: 'Invalid recurrence rule' }).optional().nullable(), // RFC 5545 RRULE
+  holidayCalendar: HolidayCalendarSchema.optional().nullable(),
+  holidayRule: HolidayRuleSchema.optional().nullable(),
+  weekendRule: WeekendRuleSchema.optional().nullable(),
+  seasonStart: SeasonDaySchema.optional().nullable(),
+  seasonEnd: SeasonDaySchema.optional().nullable(),
+  // Exception dates (YYYY-MM-DD), stored in ScheduleException; replace the existing lists
+  excludedDates: z.array(DateKeySchema).max(500).optional(),
+  extraDates: z.array(DateKeySchema).max(500).optional(),
+  dueTime: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d(,([01]\d|2[0-3]):[0-5]\d)*$/).optional().nullable(), // HH:mm, comma-separated for several slots
+  timezone: z.string().refine(isValidTimezone, { message: 'Unknown timezone' }).optional().nullable(), // IANA name, null = app timezone
   tags: z.string().max(500).optional().nullable(),
   color: z.string().regex(/^#[0-9A-Fa-f]{6}$/).optional().nullable(), // Hex color format
   sortOrder: z.number().int().default(0),
@@ -33,20 +75,44 @@ export const CreateTemplateSchema = BaseTemplateSchema.refine((data) => {
     case 'WEEKLY':
       return !!data.weeklyDays;
     case 'MONTHLY':
+      if (data.monthlyMode === 'NTH_WEEKDAY') {
+        return data.monthlyOrdinal != null && data.monthlyWeekday != null;
+      }
+      if (data.monthlyMode === 'NTH_WORKDAY') {
+        // Every month has at least 20 weekdays
+        return !!data.monthlyDay && data.monthlyDay <= 20;
+      }
       return !!data.monthlyDay || !!data.monthlyMode;
     case 'YEARLY':
       return !!data.yearlyMonth && !!data.yearlyDay;
     case 'INTERVAL':
       return !!data.anchorDate && !!data.intervalUnit && !!data.intervalValue;
+    case 'RRULE':
+      return !!data.rrule;
+    case 'AFTER_COMPLETION':
+      return !!data.intervalUnit && !!data.intervalValue;
+    case 'ROTATION':
+      return !!data.anchorDate && !!data.rotationWeeks;
     default:
       return true;
   }
 }, {
   message: 'Invalid schedule configuration for the selected schedule type',
+}).refine((data) => {
+  // A seasonal window needs both ends
+  return !data.seasonStart === !data.seasonEnd;
+}, {
+  message: 'Seasonal window needs a start and an end',
+}).refine((data) => {
+  if (!data.endDate || !data.startDate) return true;
+  return new Date(data.endDate) >= new Date(data.startDate);
+}, {
+  message: 'End date must not be before the start date',
 });
 
 export const UpdateTemplateSchema = BaseTemplateSchema.partial().extend({
   isActive: z.boolean().optional(),
+  effectiveFrom: DateKeySchema.optional(), // Day a schedule change takes effect (default today)
 });
 
 export const DuplicateTemplateSchema = z.object({
@@ -54,6 +120,15 @@ export const DuplicateTemplateSchema = z.object({
   newTitle: z.string().min(1).max(255).optional(),
 });
 
+export const PauseTemplateSchema = z.object({
+  resumeOn: DateKeySchema.optional().nullable(), // Day the template becomes active again (null = until resumed manually)
+});
+
+export const PreviewQuerySchema = z.object({
+  count: z.coerce.number().int().min(1).max(50).default(10),
+});
+
 export type CreateTemplateInput = z.infer<typeof CreateTemplateSchema>;
 export type UpdateTemplateInput = z.infer<typeof UpdateTemplateSchema>;
 export type DuplicateTemplateInput = z.infer<typeof DuplicateTemplateSchema>;
+export type PauseTemplateInput = z.infer<typeof PauseTemplateSchema>;
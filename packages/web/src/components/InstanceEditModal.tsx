@@ -65,6 +65,29 @@ export default function InstanceEditModal({
     }
   };
 
+  // The entered title/notes become the task's from this occurrence on (empty notes
+  // clear them); a moved date only applies to this instance
+  const canSaveFollowing = instance.template.scheduleType !== 'ONCE'
+    && ((!!customTitle && customTitle !== instance.template.title) || (customNotes || null) !== (instance.template.notes ?? null))
+    && newDate === instance.date;
+
+  const handleSaveFollowing = async () => {
+    setLoading(true);
+    try {
+      await instancesApi.split(instance.id, {
+        title: customTitle || undefined,
+        notes: customNotes || null,
+      });
+      onSave();
+      onClose();
+    } catch (error) {
+      console.error('Failed to split series:', error);
+      alert(t('instanceModal.saveError'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleDelete = async () => {
     setLoading(true);
     try {
@@ -210,6 +233,15 @@ export default function InstanceEditModal({
             </button>
           </div>
 
+          <button
+            onClick={handleSaveFollowing}
+            disabled={loading || !canSaveFollowing}
+            title={t('instanceModal.saveFollowingHint')}
+            className="btn btn-secondary w-full"
+          >
+            {t('instanceModal.saveFollowing')}
+          </button>
+
           <button
             onClick={onEditTemplate}
             className="w-full text-sm text-gray-600 hover:text-gray-800 py-2"
@@ -1,9 +1,12 @@
 import { Check, Clock, AlertCircle, ChevronRight, MoreVertical, Trash2, Edit3 } from 'lucide-react';
 import { useState } from 'react';
 import { Instance, instances as instancesApi } from '../lib/api';
-import { formatTime, isOverdue, cn } from '../lib/utils';
+import { formatTime, formatTimezoneCity, isOverdue, getMinutesUntilDue, cn } from '../lib/utils';
 import { useTranslation } from '../i18n';
-import { format, parseISO } from 'date-fns';
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+
+// "Due in 20 min" shows up this long before the due time
+const DUE_SOON_MINUTES = 60;
 
 interface TaskCardProps {
   instance: Instance;
@@ -26,9 +29,14 @@ export default function TaskCard({
   const [showMenu, setShowMenu] = useState(false);
   const { t, dateFnsLocale } = useTranslation();
 
-  const isTaskOverdue = instance.status === 'OPEN' && isOverdue(instance.date);
+  const isTaskOverdue = instance.status === 'OPEN' && isOverdue(instance);
+  const minutesUntilDue = instance.status === 'OPEN' ? getMinutesUntilDue(instance.date, instance.dueTime) : null;
+  const isDueSoon = minutesUntilDue !== null && minutesUntilDue <= DUE_SOON_MINUTES;
+  // Missed, but the template's grace period is not over yet
+  const isLate = isTaskOverdue && !!instance.lateUntil;
   const isDone = instance.status === 'DONE';
   const isFailed = instance.status === 'FAILED';
+  const isSkipped = instance.status === 'SKIPPED';
 
   const handleComplete = async (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -100,11 +108,18 @@ export default function TaskCard({
     return format(date, 'dd.MM.yyyy', { locale: dateFnsLocale });
   };
 
+  // Weekday within a week of the current date, the date further away
+  const formatMovedFrom = (dateStr: string): string => {
+    const date = parseISO(dateStr);
+    const nearby = Math.abs(differenceInCalendarDays(parseISO(instance.date), date)) < 7;
+    return format(date, nearby ? 'EEE' : 'dd.MM.', { locale: dateFnsLocale });
+  };
+
   return (
     <div
       className={cn(
         'task-card',
-        isDone && 'opacity-60',
+        (isDone || isSkipped) && 'opacity-60',
         isFailed && 'border-red-200 bg-red-50'
       )}
       onClick={onEdit}
@@ -135,25 +150,57 @@ export default function TaskCard({
               <Edit3 size={12} className="text-blue-500 flex-shrink-0" />
             </span>
           )}
-          {isTaskOverdue && (
+          {isLate && (
+            <span
+              className="badge badge-overdue flex-shrink-0"
+              title={t('taskCard.lateUntil', { time: format(parseISO(instance.lateUntil!), 'EEE HH:mm', { locale: dateFnsLocale }) })}
+            >
+              {t('tasks.badges.late')}
+            </span>
+          )}
+          {isTaskOverdue && !isLate && (
             <span className="badge badge-overdue flex-shrink-0">{t('tasks.badges.overdue')}</span>
           )}
           {isFailed && (
             <span className="badge badge-failed flex-shrink-0">{t('tasks.badges.failed')}</span>
           )}
+          {isSkipped && (
+            <span className="badge bg-gray-100 text-gray-600 flex-shrink-0">{t('tasks.badges.skipped')}</span>
+          )}
           {instance.template.carryPolicy === 'CARRY_OVER_STACK' && isTaskOverdue && (
             <span className="badge badge-carry flex-shrink-0">{t('tasks.badges.stacks')}</span>
           )}
+          {!!instance.absorbedCount && !isDone && (
+            <span className="badge badge-carry flex-shrink-0" title={t('taskCard.absorbedHint')}>
+              {t('taskCard.absorbed', { count: instance.absorbedCount })}
+            </span>
+          )}
+          {!!instance.rolledCount && !isDone && (
+            <span className="badge bg-gray-100 text-gray-500 flex-shrink-0">
+              {t('taskCard.rolled', { count: instance.rolledCount })}
+            </span>
+          )}
         </div>
 
         <div className="flex items-center gap-3 text-sm text-gray-500 mt-1">
           {showDate && (
             <span>{formatDateDisplay(instance.date)}</span>
           )}
-          {instance.template.dueTime && (
-            <span className="flex items-center gap-1">
+          {instance.movedFrom && (
+            <span>{t('taskCard.movedFrom', { day: formatMovedFrom(instance.movedFrom) })}</span>
+          )}
+          {instance.dueTime && (
+            <span className={cn('flex items-center gap-1', isDueSoon && 'text-primary-600 font-medium')}>
               <Clock size={14} />
-              {formatTime(instance.template.dueTime)}
+              {formatTime(instance.dueTime)}
+              {isDueSoon && (
+                <span>· {t('taskCard.dueIn', { minutes: minutesUntilDue })}</span>
+              )}
+            </span>
+          )}
+          {instance.timezone && instance.localDueTime && (
+            <span title={instance.timezone}>
+              ({t('taskCard.localTime', { time: formatTime(instance.localDueTime), city: formatTimezoneCity(instance.timezone) })})
             </span>
           )}
           {displayNotes && (
@@ -164,7 +211,7 @@ export default function TaskCard({
 
       {/* Actions */}
       <div className="flex items-center gap-1 flex-shrink-0">
-        {!isDone && !isFailed && (
+        {!isDone && !isFailed && !isSkipped && (
           <div className="relative">
             <button
               onClick={(e) => {
@@ -41,6 +41,7 @@ async function request<T>(
 // Settings
 export interface AppSettings {
   locale: 'en' | 'de';
+  timezone: string; // IANA name, e.g. "Europe/Berlin"
 }
 
 export const settings = {
@@ -77,26 +78,108 @@ export const auth = {
     }),
 };
 
+// Holidays
+export type HolidayRule = 'SKIP' | 'PREVIOUS_WORKDAY' | 'NEXT_WORKDAY';
+
+export const HOLIDAY_CALENDARS = [
+  'DE', 'DE-BW', 'DE-BY', 'DE-BE', 'DE-BB', 'DE-HB', 'DE-HH', 'DE-HE', 'DE-MV',
+  'DE-NI', 'DE-NW', 'DE-RP', 'DE-SL', 'DE-SN', 'DE-ST', 'DE-SH', 'DE-TH', 'CUSTOM',
+] as const;
+
+export interface Holiday {
+  id: string;
+  date: string;
+  name: string;
+}
+
+export const holidays = {
+  list: () =>
+    request<Holiday[]>('/holidays'),
+
+  create: (date: string, name: string) =>
+    request<Holiday>('/holidays', {
+      method: 'POST',
+      body: JSON.stringify({ date, name }),
+    }),
+
+  delete: (id: string) =>
+    request<void>(`/holidays/${id}`, {
+      method: 'DELETE',
+    }),
+};
+
+// Away periods
+export interface AwayPeriod {
+  id: string;
+  startDate: string;
+  endDate: string; // Inclusive
+  name: string | null;
+}
+
+export const awayPeriods = {
+  list: () =>
+    request<AwayPeriod[]>('/away-periods'),
+
+  create: (startDate: string, endDate: string, name?: string) =>
+    request<AwayPeriod>('/away-periods', {
+      method: 'POST',
+      body: JSON.stringify({ startDate, endDate, name: name || null }),
+    }),
+
+  delete: (id: string) =>
+    request<void>(`/away-periods/${id}`, {
+      method: 'DELETE',
+    }),
+};
+
 // Templates
+export type WeekendRule = 'PREVIOUS_FRIDAY' | 'NEXT_MONDAY' | 'NEAREST_WEEKDAY';
+
+// One week of a ROTATION cycle (0=Sunday), with an optional title/notes variant
+export interface RotationWeek {
+  days: number[];
+  title?: string | null;
+  notes?: string | null;
+}
+
 export interface Template {
   id: string;
   title: string;
   notes: string | null;
   isActive: boolean;
+  // Paused since / until (null = not paused, or no resume date)
+  pausedAt: string | null;
+  resumeOn: string | null;
   createdAt: string;
   updatedAt: string;
-  carryPolicy: 'FAIL_ON_MISS' | 'CARRY_OVER_STACK';
-  scheduleType: 'ONCE' | 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY' | 'INTERVAL';
+  carryPolicy: 'FAIL_ON_MISS' | 'CARRY_OVER_STACK' | 'CARRY_OVER_COLLAPSE' | 'ROLL_FORWARD';
+  graceHours: number | null; // FAIL_ON_MISS: hours a missed task stays completable
+  scheduleType: 'ONCE' | 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY' | 'INTERVAL' | 'RRULE' | 'AFTER_COMPLETION' | 'ROTATION';
   startDate: string | null;
   anchorDate: string | null;
+  endDate: string | null;
+  maxOccurrences: number | null;
   intervalUnit: 'DAY' | 'WEEK' | 'MONTH' | 'YEAR' | null;
   intervalValue: number | null;
   weeklyDays: string | null;
+  rotationWeeks: string | null; // JSON-encoded RotationWeek[]
   monthlyDay: number | null;
-  monthlyMode: 'FIRST_DAY' | 'LAST_DAY' | 'SPECIFIC_DAY' | null;
+  monthlyMode: 'FIRST_DAY' | 'LAST_DAY' | 'SPECIFIC_DAY' | 'NTH_WEEKDAY' | 'NTH_WORKDAY' | null;
+  monthlyOrdinal: number | null;
+  monthlyWeekday: number | null;
   yearlyMonth: number | null;
   yearlyDay: number | null;
-  dueTime: string | null;
+  rrule: string | null;
+  holidayCalendar: string | null;
+  holidayRule: HolidayRule | null;
+  weekendRule: WeekendRule | null;
+  seasonStart: string | null; // "MM-DD"
+  seasonEnd: string | null; // "MM-DD"
+  // Exception dates (YYYY-MM-DD), only included when loading a single template
+  excludedDates?: string[];
+  extraDates?: string[];
+  dueTime: string | null; // HH:mm, comma-separated for several slots
+  timezone: string | null; // IANA name, null = app timezone
   tags: string | null;
   color: string | null;
   sortOrder: number;
@@ -105,23 +188,64 @@ export interface Template {
 export interface CreateTemplateInput {
   title: string;
   notes?: string | null;
-  carryPolicy?: 'FAIL_ON_MISS' | 'CARRY_OVER_STACK';
-  scheduleType: 'ONCE' | 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY' | 'INTERVAL';
+  carryPolicy?: 'FAIL_ON_MISS' | 'CARRY_OVER_STACK' | 'CARRY_OVER_COLLAPSE' | 'ROLL_FORWARD';
+  graceHours?: number | null;
+  scheduleType: 'ONCE' | 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY' | 'INTERVAL' | 'RRULE' | 'AFTER_COMPLETION' | 'ROTATION';
   startDate?: string | null;
   anchorDate?: string | null;
+  endDate?: string | null;
+  maxOccurrences?: number | null;
   intervalUnit?: 'DAY' | 'WEEK' | 'MONTH' | 'YEAR' | null;
   intervalValue?: number | null;
   weeklyDays?: string | null;
+  rotationWeeks?: string | null;
   monthlyDay?: number | null;
-  monthlyMode?: 'FIRST_DAY' | 'LAST_DAY' | 'SPECIFIC_DAY' | null;
+  monthlyMode?: 'FIRST_DAY' | 'LAST_DAY' | 'SPECIFIC_DAY' | 'NTH_WEEKDAY' | 'NTH_WORKDAY' | null;
+  monthlyOrdinal?: number | null;
+  monthlyWeekday?: number | null;
   yearlyMonth?: number | null;
   yearlyDay?: number | null;
+  rrule?: string | null;
+  holidayCalendar?: string | null;
+  holidayRule?: HolidayRule | null;
+  weekendRule?: WeekendRule | null;
+  seasonStart?: string | null;
+  seasonEnd?: string | null;
+  excludedDates?: string[];
+  extraDates?: string[];
   dueTime?: string | null;
+  timezone?: string | null;
   tags?: string | null;
   color?: string | null;
   sortOrder?: number;
 }
 
+// Schedule in force from effectiveFrom until the next revision (the template holds the latest)
+export type TemplateRevision = Pick<
+  Template,
+  | 'scheduleType' | 'anchorDate' | 'intervalUnit' | 'intervalValue' | 'weeklyDays' | 'rotationWeeks'
+  | 'monthlyDay' | 'monthlyMode' | 'monthlyOrdinal' | 'monthlyWeekday' | 'yearlyMonth' | 'yearlyDay'
+  | 'rrule' | 'holidayCalendar' | 'holidayRule' | 'weekendRule' | 'seasonStart' | 'seasonEnd' | 'dueTime'
+> & {
+  id: string;
+  effectiveFrom: string; // YYYY-MM-DD
+  createdAt: string;
+};
+
+export type ScheduleWarning =
+  | 'NO_OCCURRENCES'
+  | 'SERIES_ENDED'
+  | 'DAY_CLAMPED'
+  | 'ANCHOR_BEFORE_START'
+  | 'ANCHOR_IN_FUTURE'
+  | 'WEEKEND_DAYS_MOVED'
+  | 'DEPENDS_ON_COMPLETION';
+
+export interface SchedulePreview {
+  dates: string[]; // YYYY-MM-DD in the template's timezone
+  warnings: ScheduleWarning[];
+}
+
 export const templates = {
   list: (params?: { status?: string; type?: string; search?: string }) => {
     const query = new URLSearchParams();
@@ -141,18 +265,41 @@ export const templates = {
       body: JSON.stringify(data),
     }),
 
-  update: (id: string, data: Partial<CreateTemplateInput> & { isActive?: boolean }) =>
+  // effectiveFrom: YYYY-MM-DD a schedule change takes effect (default today)
+  update: (id: string, data: Partial<CreateTemplateInput> & { isActive?: boolean; effectiveFrom?: string }) =>
     request<Template>(`/templates/${id}`, {
       method: 'PUT',
       body: JSON.stringify(data),
     }),
 
+  revisions: (id: string) =>
+    request<TemplateRevision[]>(`/templates/${id}/revisions`),
+
+  // Next occurrences of an unsaved template, for the editor
+  preview: (data: CreateTemplateInput, count = 10) =>
+    request<SchedulePreview>(`/templates/preview?count=${count}`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
   duplicate: (id: string, options?: { includeSchedule?: boolean; newTitle?: string }) =>
     request<Template>(`/templates/${id}/duplicate`, {
       method: 'POST',
       body: JSON.stringify(options || {}),
     }),
 
+  // resumeOn: YYYY-MM-DD, omitted = until resumed manually
+  pause: (id: string, resumeOn?: string) =>
+    request<Template>(`/templates/${id}/pause`, {
+      method: 'POST',
+      body: JSON.stringify({ resumeOn: resumeOn || null }),
+    }),
+
+  resume: (id: string) =>
+    request<Template>(`/templates/${id}/resume`, {
+      method: 'POST',
+    }),
+
   delete: (id: string, hard = false) =>
     request<void>(`/templates/${id}${hard ? '?hard=true' : ''}`, {
       method: 'DELETE',
@@ -163,10 +310,21 @@ export const templates = {
 export interface Instance {
   id: string;
   templateId: string;
+  isVirtual?: boolean; // Computed occurrence past the generation horizon (stored once acted on)
   date: string;
-  status: 'OPEN' | 'DONE' | 'FAILED' | 'DELETED';
+  dueTime: string | null; // Time slot of this instance (HH:mm)
+  // Date and time in the template's own timezone (date/dueTime are converted to the app timezone)
+  timezone: string | null;
+  localDate: string;
+  localDueTime: string | null;
+  status: 'OPEN' | 'DONE' | 'FAILED' | 'DELETED' | 'SKIPPED'; // SKIPPED = due during an away period
   completedAt: string | null;
   createdAt: string;
+  rotationWeek?: number | null; // ROTATION: week of the cycle (0 = first)
+  movedFrom?: string | null; // Scheduled day (YYYY-MM-DD) of a moved instance
+  lateUntil?: string | null; // Missed FAIL_ON_MISS task, completable until this instant (ISO)
+  absorbedCount?: number; // CARRY_OVER_COLLAPSE: missed occurrences merged into this one
+  rolledCount?: number; // ROLL_FORWARD: times the task was moved on to the next day
   // Instance-level overrides (null = use template value)
   customTitle?: string | null;
   customNotes?: string | null;
@@ -174,9 +332,10 @@ export interface Instance {
     id: string;
     title: string;
     notes?: string | null;
-    carryPolicy: 'FAIL_ON_MISS' | 'CARRY_OVER_STACK';
+    carryPolicy: 'FAIL_ON_MISS' | 'CARRY_OVER_STACK' | 'CARRY_OVER_COLLAPSE' | 'ROLL_FORWARD';
     scheduleType: string;
     dueTime?: string | null;
+    timezone?: string | null;
     tags?: string | null;
     color?: string | null;
   };
@@ -230,6 +389,13 @@ export const instances = {
       body: JSON.stringify(data),
     }),
 
+  // "This and all following": the series continues from this instance as a new task
+  split: (id: string, data: { title?: string; notes?: string | null }) =>
+    request<Template>(`/instances/${id}/split`, {
+      method: 'POST',
+      body: JSON.stringify(data),
+    }),
+
   delete: (id: string) =>
     request<{ success: boolean }>(`/instances/${id}`, {
       method: 'DELETE',
@@ -1,13 +1,56 @@
-import { parseISO, isToday, isPast, startOfDay } from 'date-fns';
+import { parseISO, startOfDay, isBefore, isAfter, isSameDay, setHours, setMinutes, differenceInMinutes } from 'date-fns';
+import type { Instance, RotationWeek } from './api';
 
 export function formatTime(time: string | null): string {
   if (!time) return '';
   return time;
 }
 
-export function isOverdue(date: string | Date): boolean {
-  const d = typeof date === 'string' ? parseISO(date) : date;
-  return isPast(startOfDay(d)) && !isToday(d);
+// Tasks with a due time are overdue from that time on, others once their day is over.
+// ROLL_FORWARD tasks never are, they move on to the next day instead.
+export function isOverdue(instance: Pick<Instance, 'date' | 'dueTime' | 'template'>, now: Date = new Date()): boolean {
+  if (instance.template.carryPolicy === 'ROLL_FORWARD') return false;
+
+  const day = parseISO(instance.date);
+  if (!instance.dueTime) return isBefore(startOfDay(day), startOfDay(now));
+  return !isAfter(withTime(day, instance.dueTime), now);
+}
+
+// Minutes until a task is due later today (null without a due time or on other days)
+export function getMinutesUntilDue(date: string, dueTime: string | null, now: Date = new Date()): number | null {
+  if (!dueTime) return null;
+  const due = withTime(parseISO(date), dueTime);
+  if (!isSameDay(due, now) || !isAfter(due, now)) return null;
+  return differenceInMinutes(due, now, { roundingMethod: 'ceil' });
+}
+
+function withTime(day: Date, time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  return setMinutes(setHours(startOfDay(day), hours), minutes);
+}
+
+// IANA timezones known to the browser
+export const TIMEZONES = Intl.supportedValuesOf('timeZone');
+
+// "America/New_York" -> "New York"
+export function formatTimezoneCity(timezone: string): string {
+  return timezone.split('/').pop()!.replace(/_/g, ' ');
+}
+
+// Weeks of a ROTATION template (stored as JSON)
+export function parseRotationWeeks(rotationWeeks: string | null): RotationWeek[] {
+  if (!rotationWeeks) return [];
+  try {
+    const weeks = JSON.parse(rotationWeeks);
+    return Array.isArray(weeks) ? weeks : [];
+  } catch {
+    return [];
+  }
+}
+
+// 0 -> "A", 1 -> "B", ...
+export function getRotationWeekLabel(index: number): string {
+  return String.fromCharCode(65 + index);
 }
 
 export function cn(...classes: (string | boolean | undefined | null)[]): string {
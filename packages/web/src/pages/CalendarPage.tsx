@@ -289,6 +289,28 @@ export default function CalendarPage() {
                   </div>
                 </div>
               )}
+
+              {/* Skipped while away */}
+              {selectedInstances.filter(i => i.status === 'SKIPPED').length > 0 && (
+                <div>
+                  <h4 className="text-sm font-medium text-gray-600 mb-2 flex items-center gap-2">
+                    <span className="w-2 h-2 rounded-full bg-gray-300" />
+                    {t('calendar.skippedCount', { count: selectedInstances.filter(i => i.status === 'SKIPPED').length })}
+                  </h4>
+                  <div className="space-y-2">
+                    {selectedInstances.filter(i => i.status === 'SKIPPED').map((instance) => (
+                      <TaskCard
+                        key={instance.id}
+                        instance={instance}
+                        onComplete={loadInstances}
+                        onEdit={() => setEditingInstance(instance)}
+                        onSnooze={loadInstances}
+                        onDelete={loadInstances}
+                      />
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
           ) : (
             <p className="text-gray-500 text-center py-4">
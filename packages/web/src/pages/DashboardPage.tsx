@@ -1,15 +1,33 @@
 import { useEffect, useState, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Plus, RefreshCw, AlertTriangle, CheckCircle2 } from 'lucide-react';
-import { instances as instancesApi, DashboardData } from '../lib/api';
+import { instances as instancesApi, DashboardData, Instance } from '../lib/api';
 import TaskCard from '../components/TaskCard';
-import { cn } from '../lib/utils';
+import { cn, formatTime, isOverdue } from '../lib/utils';
 import { useTranslation } from '../i18n';
 
+// Re-check due times this often so tasks turn overdue without a reload
+const NOW_TICK_MS = 30 * 1000;
+
+// Consecutive instances with the same due time (the list is sorted by time)
+function groupByDueTime(instances: Instance[]): { time: string | null; instances: Instance[] }[] {
+  const groups: { time: string | null; instances: Instance[] }[] = [];
+  for (const instance of instances) {
+    const last = groups[groups.length - 1];
+    if (last && last.time === instance.dueTime) {
+      last.instances.push(instance);
+    } else {
+      groups.push({ time: instance.dueTime, instances: [instance] });
+    }
+  }
+  return groups;
+}
+
 export default function DashboardPage() {
   const [data, setData] = useState<DashboardData | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => new Date());
   const navigate = useNavigate();
   const { t } = useTranslation();
 
@@ -30,6 +48,11 @@ export default function DashboardPage() {
     loadData();
   }, [loadData]);
 
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), NOW_TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
   const handleTaskEdit = (templateId: string) => {
     navigate(`/tasks/${templateId}`);
   };
@@ -56,9 +79,16 @@ export default function DashboardPage() {
 
   if (!data) return null;
 
-  const totalOverdue = data.today.overdue.length;
+  // Tasks whose due time passed since loading move over to overdue
+  const nowOverdue = data.today.open.filter((instance) => isOverdue(instance, now));
+  const overdue = [...data.today.overdue, ...nowOverdue];
+  const open = data.today.open.filter((instance) => !nowOverdue.includes(instance));
+  const openGroups = groupByDueTime(open);
+  const hasTimedOpen = openGroups.some((group) => group.time !== null);
+
+  const totalOverdue = overdue.length;
   const totalFailed = data.today.failed.length;
-  const totalTodayOpen = data.today.open.length + totalOverdue;
+  const totalTodayOpen = open.length + totalOverdue;
   const totalTodayDone = data.today.done.length;
 
   return (
@@ -114,14 +144,14 @@ export default function DashboardPage() {
         <h2 className="text-lg font-semibold text-gray-900 mb-3">{t('dashboard.today')}</h2>
 
         {/* Overdue */}
-        {data.today.overdue.length > 0 && (
+        {overdue.length > 0 && (
           <div className="mb-4">
             <div className="flex items-center gap-2 text-yellow-700 mb-2">
               <AlertTriangle size={16} />
-              <span className="text-sm font-medium">{t('dashboard.overdueCount', { count: data.today.overdue.length })}</span>
+              <span className="text-sm font-medium">{t('dashboard.overdueCount', { count: overdue.length })}</span>
             </div>
             <div className="space-y-2">
-              {data.today.overdue.map((instance) => (
+              {overdue.map((instance) => (
                 <TaskCard
                   key={instance.id}
                   instance={instance}
@@ -135,20 +165,27 @@ export default function DashboardPage() {
           </div>
         )}
 
-        {/* Open */}
-        {data.today.open.length > 0 && (
-          <div className="space-y-2 mb-4">
-            {data.today.open.map((instance) => (
-              <TaskCard
-                key={instance.id}
-                instance={instance}
-                onComplete={loadData}
-                onEdit={() => handleTaskEdit(instance.templateId)}
-                onSnooze={loadData}
-              />
-            ))}
+        {/* Open, grouped by due time once some tasks have one */}
+        {openGroups.map((group) => (
+          <div key={group.time ?? 'anytime'} className="mb-4">
+            {hasTimedOpen && (
+              <div className="text-sm font-medium text-gray-500 mb-2">
+                {group.time ? formatTime(group.time) : t('dashboard.anytime')}
+              </div>
+            )}
+            <div className="space-y-2">
+              {group.instances.map((instance) => (
+                <TaskCard
+                  key={instance.id}
+                  instance={instance}
+                  onComplete={loadData}
+                  onEdit={() => handleTaskEdit(instance.templateId)}
+                  onSnooze={loadData}
+                />
+              ))}
+            </div>
           </div>
-        )}
+        ))}
 
         {/* Failed */}
         {data.today.failed.length > 0 && (
@@ -1,15 +1,17 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { LogOut, Key, Shield, Globe } from 'lucide-react';
+import { LogOut, Key, Shield, Globe, Clock, CalendarOff, Plane, Trash2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
 import { useAuth } from '../context/AuthContext';
-import { auth } from '../lib/api';
+import { auth, settings as settingsApi, holidays as holidaysApi, awayPeriods as awayPeriodsApi, Holiday, AwayPeriod } from '../lib/api';
+import { TIMEZONES } from '../lib/utils';
 import { useTranslation } from '../i18n';
 import type { Locale } from '../i18n';
 
 export default function SettingsPage() {
   const { logout } = useAuth();
   const navigate = useNavigate();
-  const { t, locale, setLocale } = useTranslation();
+  const { t, locale, setLocale, dateFnsLocale } = useTranslation();
 
   const [currentPassword, setCurrentPassword] = useState('');
   const [newPassword, setNewPassword] = useState('');
@@ -17,6 +19,107 @@ export default function SettingsPage() {
   const [changing, setChanging] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
 
+  const [holidayList, setHolidayList] = useState<Holiday[]>([]);
+  const [holidayDate, setHolidayDate] = useState('');
+  const [holidayName, setHolidayName] = useState('');
+  const [holidayError, setHolidayError] = useState<string | null>(null);
+
+  const [awayList, setAwayList] = useState<AwayPeriod[]>([]);
+  const [awayStart, setAwayStart] = useState('');
+  const [awayEnd, setAwayEnd] = useState('');
+  const [awayName, setAwayName] = useState('');
+  const [awayError, setAwayError] = useState<string | null>(null);
+
+  const [timezone, setTimezone] = useState('');
+  const [timezoneSaving, setTimezoneSaving] = useState(false);
+  const [timezoneError, setTimezoneError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadHolidays();
+    loadAwayPeriods();
+    settingsApi.get()
+      .then((data) => setTimezone(data.timezone))
+      .catch((error) => console.error('Failed to load settings:', error));
+  }, []);
+
+  const handleTimezoneChange = async (newTimezone: string) => {
+    if (!confirm(t('settings.timezone.confirm', { timezone: newTimezone }))) return;
+
+    setTimezoneError(null);
+    setTimezoneSaving(true);
+    try {
+      const updated = await settingsApi.update({ timezone: newTimezone });
+      setTimezone(updated.timezone);
+    } catch (error) {
+      setTimezoneError(error instanceof Error ? error.message : t('settings.timezone.error'));
+    } finally {
+      setTimezoneSaving(false);
+    }
+  };
+
+  const loadHolidays = async () => {
+    try {
+      setHolidayList(await holidaysApi.list());
+    } catch (error) {
+      console.error('Failed to load holidays:', error);
+    }
+  };
+
+  const handleAddHoliday = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setHolidayError(null);
+
+    try {
+      await holidaysApi.create(holidayDate, holidayName);
+      setHolidayDate('');
+      setHolidayName('');
+      loadHolidays();
+    } catch (error) {
+      setHolidayError(error instanceof Error ? error.message : t('settings.holidays.error'));
+    }
+  };
+
+  const handleDeleteHoliday = async (id: string) => {
+    try {
+      await holidaysApi.delete(id);
+      loadHolidays();
+    } catch (error) {
+      console.error('Failed to delete holiday:', error);
+    }
+  };
+
+  const loadAwayPeriods = async () => {
+    try {
+      setAwayList(await awayPeriodsApi.list());
+    } catch (error) {
+      console.error('Failed to load away periods:', error);
+    }
+  };
+
+  const handleAddAwayPeriod = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setAwayError(null);
+
+    try {
+      await awayPeriodsApi.create(awayStart, awayEnd, awayName);
+      setAwayStart('');
+      setAwayEnd('');
+      setAwayName('');
+      loadAwayPeriods();
+    } catch (error) {
+      setAwayError(error instanceof Error ? error.message : t('settings.away.error'));
+    }
+  };
+
+  const handleDeleteAwayPeriod = async (id: string) => {
+    try {
+      await awayPeriodsApi.delete(id);
+      loadAwayPeriods();
+    } catch (error) {
+      console.error('Failed to delete away period:', error);
+    }
+  };
+
   const handleChangePassword = async (e: React.FormEvent) => {
     e.preventDefault();
     setMessage(null);
@@ -78,6 +181,167 @@ export default function SettingsPage() {
         </select>
       </div>
 
+      {/* Timezone */}
+      <div className="card p-6">
+        <div className="flex items-center gap-3 mb-2">
+          <Clock className="text-primary-600" size={24} />
+          <h2 className="font-semibold text-gray-900">{t('settings.timezone.title')}</h2>
+        </div>
+        <p className="text-sm text-gray-500 mb-4">{t('settings.timezone.description')}</p>
+
+        <select
+          value={timezone}
+          onChange={(e) => handleTimezoneChange(e.target.value)}
+          className="input max-w-xs"
+          disabled={!timezone || timezoneSaving}
+        >
+          {/* Keep the current value selectable even if the browser doesn't list it */}
+          {timezone && !TIMEZONES.includes(timezone) && <option value={timezone}>{timezone}</option>}
+          {TIMEZONES.map((tz) => (
+            <option key={tz} value={tz}>{tz}</option>
+          ))}
+        </select>
+
+        {timezoneError && (
+          <div className="p-3 rounded-lg bg-red-50 text-red-700 mt-3">
+            {timezoneError}
+          </div>
+        )}
+      </div>
+
+      {/* Custom Holidays */}
+      <div className="card p-6">
+        <div className="flex items-center gap-3 mb-2">
+          <CalendarOff className="text-primary-600" size={24} />
+          <h2 className="font-semibold text-gray-900">{t('settings.holidays.title')}</h2>
+        </div>
+        <p className="text-sm text-gray-500 mb-4">{t('settings.holidays.description')}</p>
+
+        {holidayList.length > 0 ? (
+          <ul className="divide-y divide-gray-100 mb-4">
+            {holidayList.map((holiday) => (
+              <li key={holiday.id} className="flex items-center justify-between py-2">
+                <div>
+                  <span className="font-medium text-gray-900">{holiday.name}</span>
+                  <span className="text-sm text-gray-500 ml-2">
+                    {format(parseISO(holiday.date), 'dd.MM.yyyy', { locale: dateFnsLocale })}
+                  </span>
+                </div>
+                <button
+                  onClick={() => handleDeleteHoliday(holiday.id)}
+                  className="p-2 hover:bg-red-100 rounded-lg transition-colors"
+                  title={t('common.delete')}
+                >
+                  <Trash2 size={16} className="text-red-500" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-400 mb-4">{t('settings.holidays.empty')}</p>
+        )}
+
+        <form onSubmit={handleAddHoliday} className="flex flex-col sm:flex-row gap-2">
+          <input
+            type="date"
+            value={holidayDate}
+            onChange={(e) => setHolidayDate(e.target.value)}
+            className="input sm:w-44"
+            required
+          />
+          <input
+            type="text"
+            value={holidayName}
+            onChange={(e) => setHolidayName(e.target.value)}
+            className="input flex-1"
+            placeholder={t('settings.holidays.namePlaceholder')}
+            required
+          />
+          <button type="submit" className="btn btn-primary">
+            {t('settings.holidays.add')}
+          </button>
+        </form>
+
+        {holidayError && (
+          <div className="p-3 rounded-lg bg-red-50 text-red-700 mt-3">
+            {holidayError}
+          </div>
+        )}
+      </div>
+
+      {/* Away Periods */}
+      <div className="card p-6">
+        <div className="flex items-center gap-3 mb-2">
+          <Plane className="text-primary-600" size={24} />
+          <h2 className="font-semibold text-gray-900">{t('settings.away.title')}</h2>
+        </div>
+        <p className="text-sm text-gray-500 mb-4">{t('settings.away.description')}</p>
+
+        {awayList.length > 0 ? (
+          <ul className="divide-y divide-gray-100 mb-4">
+            {awayList.map((period) => (
+              <li key={period.id} className="flex items-center justify-between py-2">
+                <div>
+                  <span className="font-medium text-gray-900">
+                    {format(parseISO(period.startDate), 'dd.MM.yyyy', { locale: dateFnsLocale })}
+                    {' - '}
+                    {format(parseISO(period.endDate), 'dd.MM.yyyy', { locale: dateFnsLocale })}
+                  </span>
+                  {period.name && (
+                    <span className="text-sm text-gray-500 ml-2">{period.name}</span>
+                  )}
+                </div>
+                <button
+                  onClick={() => handleDeleteAwayPeriod(period.id)}
+                  className="p-2 hover:bg-red-100 rounded-lg transition-colors"
+                  title={t('common.delete')}
+                >
+                  <Trash2 size={16} className="text-red-500" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-400 mb-4">{t('settings.away.empty')}</p>
+        )}
+
+        <form onSubmit={handleAddAwayPeriod} className="flex flex-col sm:flex-row gap-2">
+          <input
+            type="date"
+            value={awayStart}
+            onChange={(e) => setAwayStart(e.target.value)}
+            className="input sm:w-40"
+            title={t('settings.away.from')}
+            required
+          />
+          <input
+            type="date"
+            value={awayEnd}
+            min={awayStart || undefined}
+            onChange={(e) => setAwayEnd(e.target.value)}
+            className="input sm:w-40"
+            title={t('settings.away.to')}
+            required
+          />
+          <input
+            type="text"
+            value={awayName}
+            onChange={(e) => setAwayName(e.target.value)}
+            className="input flex-1"
+            placeholder={t('settings.away.namePlaceholder')}
+          />
+          <button type="submit" className="btn btn-primary">
+            {t('settings.away.add')}
+          </button>
+        </form>
+
+        {awayError && (
+          <div className="p-3 rounded-lg bg-red-50 text-red-700 mt-3">
+            {awayError}
+          </div>
+        )}
+      </div>
+
       {/* Password Change */}
       <div className="card p-6">
         <div className="flex items-center gap-3 mb-4">
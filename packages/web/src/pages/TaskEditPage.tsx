@@ -1,20 +1,189 @@
 import { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { ArrowLeft, Save, Trash2 } from 'lucide-react';
-import { templates as templatesApi, CreateTemplateInput } from '../lib/api';
+import { ArrowLeft, Save, Trash2, Plus, X, CalendarDays, AlertTriangle } from 'lucide-react';
+import { templates as templatesApi, CreateTemplateInput, SchedulePreview, RotationWeek, HolidayRule, WeekendRule, TemplateRevision, HOLIDAY_CALENDARS } from '../lib/api';
 import { format, parseISO } from 'date-fns';
-import { cn } from '../lib/utils';
+import { cn, TIMEZONES, parseRotationWeeks, getRotationWeekLabel } from '../lib/utils';
 import { useTranslation } from '../i18n';
 
-type ScheduleType = 'ONCE' | 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY' | 'INTERVAL';
-type CarryPolicy = 'FAIL_ON_MISS' | 'CARRY_OVER_STACK';
+type ScheduleType = 'ONCE' | 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY' | 'INTERVAL' | 'RRULE' | 'AFTER_COMPLETION' | 'ROTATION';
+type CarryPolicy = 'FAIL_ON_MISS' | 'CARRY_OVER_STACK' | 'CARRY_OVER_COLLAPSE' | 'ROLL_FORWARD';
 type IntervalUnit = 'DAY' | 'WEEK' | 'MONTH' | 'YEAR';
-type MonthlyMode = 'FIRST_DAY' | 'LAST_DAY' | 'SPECIFIC_DAY';
+type MonthlyMode = 'FIRST_DAY' | 'LAST_DAY' | 'SPECIFIC_DAY' | 'NTH_WEEKDAY' | 'NTH_WORKDAY';
+
+const MONTH_KEYS = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+const PREVIEW_DEBOUNCE_MS = 400;
+
+// ONCE and AFTER_COMPLETION schedules change right away, others from a chosen day
+function isRevisable(type: ScheduleType): boolean {
+  return type !== 'ONCE' && type !== 'AFTER_COMPLETION';
+}
+
+// "MM-DD" <-> { month, day } for seasonal windows
+function parseSeasonDay(value: string): { month: number; day: number } {
+  const [month, day] = value.split('-').map(Number);
+  return { month, day };
+}
+
+function formatSeasonDay({ month, day }: { month: number; day: number }): string {
+  return `${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// Editable list of dates (YYYY-MM-DD), kept sorted
+function DateListEditor({ label, hint, dates, onChange }: {
+  label: string;
+  hint: string;
+  dates: string[];
+  onChange: (dates: string[]) => void;
+}) {
+  const { dateFnsLocale } = useTranslation();
+  const [newDate, setNewDate] = useState('');
+
+  const addDate = () => {
+    if (!newDate || dates.includes(newDate)) return;
+    onChange([...dates, newDate].sort());
+    setNewDate('');
+  };
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+      <div className="flex gap-2">
+        <input
+          type="date"
+          value={newDate}
+          onChange={(e) => setNewDate(e.target.value)}
+          className="input"
+        />
+        <button
+          type="button"
+          onClick={addDate}
+          disabled={!newDate}
+          className="btn btn-secondary px-3"
+        >
+          <Plus size={16} />
+        </button>
+      </div>
+      {dates.length > 0 && (
+        <div className="flex flex-wrap gap-2 mt-2">
+          {dates.map((date) => (
+            <span key={date} className="badge bg-gray-100 text-gray-700 flex items-center gap-1">
+              {format(parseISO(date), 'dd.MM.yyyy', { locale: dateFnsLocale })}
+              <button
+                type="button"
+                onClick={() => onChange(dates.filter((d) => d !== date))}
+                className="text-gray-400 hover:text-red-600"
+              >
+                <X size={12} />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <p className="text-xs text-gray-500 mt-1">{hint}</p>
+    </div>
+  );
+}
+
+const MAX_ROTATION_WEEKS = 12;
+
+// Weeks of a ROTATION cycle: weekdays plus optional title/notes per week
+function RotationWeeksEditor({ weeks, weekdays, onChange }: {
+  weeks: RotationWeek[];
+  weekdays: { value: number; label: string }[];
+  onChange: (weeks: RotationWeek[]) => void;
+}) {
+  const { t } = useTranslation();
+
+  const updateWeek = (index: number, changes: Partial<RotationWeek>) => {
+    onChange(weeks.map((week, i) => (i === index ? { ...week, ...changes } : week)));
+  };
+
+  const toggleDay = (index: number, day: number) => {
+    const days = weeks[index].days;
+    updateWeek(index, { days: days.includes(day) ? days.filter(d => d !== day) : [...days, day] });
+  };
+
+  return (
+    <div className="space-y-3">
+      {weeks.map((week, index) => (
+        <div key={index} className="rounded-lg border border-gray-200 p-3 space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-gray-700">
+              {t('tasks.schedule.rotationWeek', { label: getRotationWeekLabel(index) })}
+              {week.days.length === 0 && (
+                <span className="text-gray-400 font-normal ml-2">{t('tasks.schedule.rotationWeekOff')}</span>
+              )}
+            </span>
+            {weeks.length > 2 && (
+              <button
+                type="button"
+                onClick={() => onChange(weeks.filter((_, i) => i !== index))}
+                className="p-1 text-gray-400 hover:text-red-600"
+                title={t('tasks.schedule.removeRotationWeek')}
+              >
+                <X size={16} />
+              </button>
+            )}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {weekdays.map(({ value, label }) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => toggleDay(index, value)}
+                className={cn(
+                  'px-3 py-1.5 rounded-lg border text-sm transition-colors',
+                  week.days.includes(value)
+                    ? 'bg-primary-600 text-white border-primary-600'
+                    : 'bg-white text-gray-700 border-gray-300 hover:border-primary-400'
+                )}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            <input
+              type="text"
+              value={week.title || ''}
+              onChange={(e) => updateWeek(index, { title: e.target.value })}
+              className="input"
+              placeholder={t('tasks.schedule.rotationTitle')}
+              maxLength={255}
+            />
+            <input
+              type="text"
+              value={week.notes || ''}
+              onChange={(e) => updateWeek(index, { notes: e.target.value })}
+              className="input"
+              placeholder={t('tasks.schedule.rotationNotes')}
+            />
+          </div>
+        </div>
+      ))}
+      {weeks.length < MAX_ROTATION_WEEKS && (
+        <button
+          type="button"
+          onClick={() => onChange([...weeks, { days: [] }])}
+          className="btn btn-secondary flex items-center gap-2"
+        >
+          <Plus size={16} />
+          {t('tasks.schedule.addRotationWeek')}
+        </button>
+      )}
+    </div>
+  );
+}
 
 export default function TaskEditPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { t } = useTranslation();
+  const { t, dateFnsLocale } = useTranslation();
   const isNew = !id || id === 'new';
 
   const [loading, setLoading] = useState(!isNew);
@@ -26,21 +195,46 @@ export default function TaskEditPage() {
   const [notes, setNotes] = useState('');
   const [scheduleType, setScheduleType] = useState<ScheduleType>('DAILY');
   const [carryPolicy, setCarryPolicy] = useState<CarryPolicy>('CARRY_OVER_STACK');
+  const [graceValue, setGraceValue] = useState('');
+  const [graceUnit, setGraceUnit] = useState<'HOURS' | 'DAYS'>('HOURS');
 
   // Schedule-specific fields
   const [startDate, setStartDate] = useState('');
   const [anchorDate, setAnchorDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [maxOccurrences, setMaxOccurrences] = useState('');
   const [weeklyDays, setWeeklyDays] = useState<number[]>([1]); // Default: Monday
+  const [rotationWeeks, setRotationWeeks] = useState<RotationWeek[]>([{ days: [1] }, { days: [2] }]);
   const [monthlyDay, setMonthlyDay] = useState(1);
   const [monthlyMode, setMonthlyMode] = useState<MonthlyMode>('SPECIFIC_DAY');
+  const [monthlyOrdinal, setMonthlyOrdinal] = useState(1);
+  const [monthlyWeekday, setMonthlyWeekday] = useState(1); // Default: Monday
   const [yearlyMonth, setYearlyMonth] = useState(1);
   const [yearlyDay, setYearlyDay] = useState(1);
   const [intervalValue, setIntervalValue] = useState(1);
   const [intervalUnit, setIntervalUnit] = useState<IntervalUnit>('WEEK');
-  const [dueTime, setDueTime] = useState('');
+  const [rrule, setRrule] = useState('');
+  const [holidayCalendar, setHolidayCalendar] = useState('');
+  const [holidayRule, setHolidayRule] = useState<HolidayRule>('NEXT_WORKDAY');
+  const [weekendRule, setWeekendRule] = useState<WeekendRule | ''>('');
+  const [seasonal, setSeasonal] = useState(false);
+  const [seasonStart, setSeasonStart] = useState({ month: 4, day: 1 });
+  const [seasonEnd, setSeasonEnd] = useState({ month: 10, day: 31 });
+  const [excludedDates, setExcludedDates] = useState<string[]>([]);
+  const [extraDates, setExtraDates] = useState<string[]>([]);
+  const [dueTimes, setDueTimes] = useState<string[]>(['']);
+  const [timezone, setTimezone] = useState('');
   const [tags, setTags] = useState('');
   const [color, setColor] = useState<string | null>(null);
 
+  const [preview, setPreview] = useState<SchedulePreview | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+
+  // Revisions: saved schedule type, day the changes take effect ('' = today) and history
+  const [savedScheduleType, setSavedScheduleType] = useState<ScheduleType | null>(null);
+  const [effectiveFrom, setEffectiveFrom] = useState('');
+  const [revisions, setRevisions] = useState<TemplateRevision[]>([]);
+
   const WEEKDAYS = [
     { value: 1, label: t('weekdays.short.mo') },
     { value: 2, label: t('weekdays.short.tu') },
@@ -71,21 +265,50 @@ export default function TaskEditPage() {
 
   const loadTemplate = async (templateId: string) => {
     try {
-      const template = await templatesApi.get(templateId);
+      const [template, revisionList] = await Promise.all([
+        templatesApi.get(templateId),
+        templatesApi.revisions(templateId),
+      ]);
       setTitle(template.title);
       setNotes(template.notes || '');
       setScheduleType(template.scheduleType);
+      setSavedScheduleType(template.scheduleType);
+      setRevisions(revisionList);
       setCarryPolicy(template.carryPolicy);
+      if (template.graceHours) {
+        const inDays = template.graceHours % 24 === 0;
+        setGraceUnit(inDays ? 'DAYS' : 'HOURS');
+        setGraceValue(String(inDays ? template.graceHours / 24 : template.graceHours));
+      }
       setStartDate(template.startDate ? format(parseISO(template.startDate), 'yyyy-MM-dd') : '');
       setAnchorDate(template.anchorDate ? format(parseISO(template.anchorDate), 'yyyy-MM-dd') : '');
+      setEndDate(template.endDate ? format(parseISO(template.endDate), 'yyyy-MM-dd') : '');
+      setMaxOccurrences(template.maxOccurrences ? String(template.maxOccurrences) : '');
       setWeeklyDays(template.weeklyDays ? template.weeklyDays.split(',').map(Number) : [1]);
+      if (template.rotationWeeks) {
+        setRotationWeeks(parseRotationWeeks(template.rotationWeeks));
+      }
       setMonthlyDay(template.monthlyDay || 1);
       setMonthlyMode(template.monthlyMode || 'SPECIFIC_DAY');
+      setMonthlyOrdinal(template.monthlyOrdinal ?? 1);
+      setMonthlyWeekday(template.monthlyWeekday ?? 1);
       setYearlyMonth(template.yearlyMonth || 1);
       setYearlyDay(template.yearlyDay || 1);
       setIntervalValue(template.intervalValue || 1);
       setIntervalUnit(template.intervalUnit || 'WEEK');
-      setDueTime(template.dueTime || '');
+      setRrule(template.rrule || '');
+      setHolidayCalendar(template.holidayCalendar || '');
+      setHolidayRule(template.holidayRule || 'NEXT_WORKDAY');
+      setWeekendRule(template.weekendRule || '');
+      setSeasonal(!!template.seasonStart && !!template.seasonEnd);
+      if (template.seasonStart && template.seasonEnd) {
+        setSeasonStart(parseSeasonDay(template.seasonStart));
+        setSeasonEnd(parseSeasonDay(template.seasonEnd));
+      }
+      setDueTimes(template.dueTime ? template.dueTime.split(',') : ['']);
+      setTimezone(template.timezone || '');
+      setExcludedDates(template.excludedDates || []);
+      setExtraDates(template.extraDates || []);
       setTags(template.tags || '');
       setColor(template.color || null);
     } catch (error) {
@@ -96,52 +319,130 @@ export default function TaskEditPage() {
     }
   };
 
+  const hasExceptionDates = scheduleType !== 'ONCE' && scheduleType !== 'AFTER_COMPLETION';
+
+  const buildTemplateInput = (): CreateTemplateInput => {
+    const data: CreateTemplateInput = {
+      title,
+      notes: notes || null,
+      scheduleType,
+      carryPolicy,
+      graceHours: carryPolicy === 'FAIL_ON_MISS' && graceValue
+        ? parseInt(graceValue, 10) * (graceUnit === 'DAYS' ? 24 : 1)
+        : null,
+      startDate: startDate ? new Date(startDate).toISOString() : null,
+      endDate: scheduleType !== 'ONCE' && endDate ? new Date(endDate).toISOString() : null,
+      maxOccurrences: scheduleType !== 'ONCE' && maxOccurrences ? parseInt(maxOccurrences, 10) : null,
+      holidayCalendar: holidayCalendar || null,
+      holidayRule: holidayCalendar ? holidayRule : null,
+      weekendRule: weekendRule || null,
+      seasonStart: seasonal ? formatSeasonDay(seasonStart) : null,
+      seasonEnd: seasonal ? formatSeasonDay(seasonEnd) : null,
+      dueTime: [...new Set(dueTimes.filter(Boolean))].sort().join(',') || null,
+      timezone: timezone || null,
+      // Exception dates only apply to calendar-based schedules
+      excludedDates: hasExceptionDates ? excludedDates : [],
+      extraDates: hasExceptionDates ? extraDates : [],
+      tags: tags || null,
+      color: color || null,
+    };
+
+    // Schedule-specific fields
+    switch (scheduleType) {
+      case 'ONCE':
+        data.anchorDate = anchorDate ? new Date(anchorDate).toISOString() : null;
+        break;
+      case 'WEEKLY':
+        data.weeklyDays = [...weeklyDays].sort().join(',');
+        break;
+      case 'MONTHLY':
+        data.monthlyMode = monthlyMode;
+        if (monthlyMode === 'SPECIFIC_DAY' || monthlyMode === 'NTH_WORKDAY') {
+          data.monthlyDay = monthlyDay;
+        }
+        if (monthlyMode === 'NTH_WEEKDAY') {
+          data.monthlyOrdinal = monthlyOrdinal;
+          data.monthlyWeekday = monthlyWeekday;
+        }
+        break;
+      case 'YEARLY':
+        data.yearlyMonth = yearlyMonth;
+        data.yearlyDay = yearlyDay;
+        break;
+      case 'INTERVAL':
+        data.anchorDate = anchorDate ? new Date(anchorDate).toISOString() : new Date(format(new Date(), 'yyyy-MM-dd')).toISOString();
+        data.intervalUnit = intervalUnit;
+        data.intervalValue = intervalValue;
+        break;
+      case 'AFTER_COMPLETION':
+        data.anchorDate = anchorDate ? new Date(anchorDate).toISOString() : null;
+        data.intervalUnit = intervalUnit;
+        data.intervalValue = intervalValue;
+        break;
+      case 'ROTATION':
+        data.anchorDate = anchorDate ? new Date(anchorDate).toISOString() : new Date(format(new Date(), 'yyyy-MM-dd')).toISOString();
+        data.rotationWeeks = JSON.stringify(rotationWeeks.map((week) => ({
+          days: [...week.days].sort(),
+          title: week.title?.trim() || null,
+          notes: week.notes?.trim() || null,
+        })));
+        break;
+      case 'RRULE':
+        data.rrule = rrule.trim();
+        data.anchorDate = anchorDate ? new Date(anchorDate).toISOString() : null;
+        break;
+    }
+
+    return data;
+  };
+
+  // Live preview of the next dates; only schedule fields are sent, so typing
+  // a title or notes does not trigger a request
+  const previewInput = JSON.stringify({
+    ...buildTemplateInput(),
+    title: 'Preview',
+    notes: null,
+    carryPolicy: undefined,
+    graceHours: undefined,
+    tags: null,
+    color: null,
+  });
+
+  useEffect(() => {
+    if (loading) return;
+
+    let cancelled = false;
+    setPreviewLoading(true);
+    const timer = setTimeout(async () => {
+      try {
+        const result = await templatesApi.preview(JSON.parse(previewInput));
+        if (!cancelled) setPreview(result);
+      } catch {
+        // Incomplete configurations fail validation while the user is still editing
+        if (!cancelled) setPreview(null);
+      } finally {
+        if (!cancelled) setPreviewLoading(false);
+      }
+    }, PREVIEW_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [previewInput, loading]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
     setSaving(true);
 
     try {
-      const data: CreateTemplateInput = {
-        title,
-        notes: notes || null,
-        scheduleType,
-        carryPolicy,
-        startDate: startDate ? new Date(startDate).toISOString() : null,
-        dueTime: dueTime || null,
-        tags: tags || null,
-        color: color || null,
-      };
-
-      // Schedule-specific fields
-      switch (scheduleType) {
-        case 'ONCE':
-          data.anchorDate = anchorDate ? new Date(anchorDate).toISOString() : null;
-          break;
-        case 'WEEKLY':
-          data.weeklyDays = weeklyDays.sort().join(',');
-          break;
-        case 'MONTHLY':
-          data.monthlyMode = monthlyMode;
-          if (monthlyMode === 'SPECIFIC_DAY') {
-            data.monthlyDay = monthlyDay;
-          }
-          break;
-        case 'YEARLY':
-          data.yearlyMonth = yearlyMonth;
-          data.yearlyDay = yearlyDay;
-          break;
-        case 'INTERVAL':
-          data.anchorDate = anchorDate ? new Date(anchorDate).toISOString() : new Date().toISOString();
-          data.intervalUnit = intervalUnit;
-          data.intervalValue = intervalValue;
-          break;
-      }
+      const data = buildTemplateInput();
 
       if (isNew) {
         await templatesApi.create(data);
       } else {
-        await templatesApi.update(id!, data);
+        await templatesApi.update(id!, effectiveFrom ? { ...data, effectiveFrom } : data);
       }
 
       navigate('/tasks');
@@ -153,6 +454,15 @@ export default function TaskEditPage() {
     }
   };
 
+  // "Weekly on Mo, Tu · 08:00" for the schedule history
+  const getRevisionSummary = (revision: TemplateRevision): string => {
+    const days = revision.weeklyDays ? revision.weeklyDays.split(',').map(Number) : [];
+    const schedule = revision.scheduleType === 'WEEKLY'
+      ? t('scheduleLabels.weeklyOn', { days: WEEKDAYS.filter(d => days.includes(d.value)).map(d => d.label).join(', ') })
+      : t(`scheduleLabels.${revision.scheduleType.toLowerCase()}`);
+    return revision.dueTime ? `${schedule} · ${revision.dueTime.split(',').join(', ')}` : schedule;
+  };
+
   const handleDelete = async () => {
     if (!confirm(t('tasks.deleteConfirm'))) return;
 
@@ -326,6 +636,9 @@ export default function TaskEditPage() {
               <option value="MONTHLY">{t('tasks.schedule.monthly')}</option>
               <option value="YEARLY">{t('tasks.schedule.yearly')}</option>
               <option value="INTERVAL">{t('tasks.schedule.interval')}</option>
+              <option value="AFTER_COMPLETION">{t('tasks.schedule.afterCompletion')}</option>
+              <option value="ROTATION">{t('tasks.schedule.rotation')}</option>
+              <option value="RRULE">{t('tasks.schedule.rrule')}</option>
             </select>
           </div>
 
@@ -347,6 +660,40 @@ export default function TaskEditPage() {
             </div>
           )}
 
+          {/* Series end - for all types except ONCE */}
+          {scheduleType !== 'ONCE' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {t('tasks.schedule.endDate')}
+                </label>
+                <input
+                  type="date"
+                  value={endDate}
+                  min={startDate || undefined}
+                  onChange={(e) => setEndDate(e.target.value)}
+                  className="input"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {t('tasks.schedule.maxOccurrences')}
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  max="1000"
+                  value={maxOccurrences}
+                  onChange={(e) => setMaxOccurrences(e.target.value)}
+                  className="input"
+                />
+              </div>
+              <p className="col-span-2 text-sm text-gray-500">
+                {t('tasks.schedule.seriesEndHint')}
+              </p>
+            </div>
+          )}
+
           {/* ONCE specific */}
           {scheduleType === 'ONCE' && (
             <div>
@@ -389,6 +736,31 @@ export default function TaskEditPage() {
             </div>
           )}
 
+          {/* ROTATION specific */}
+          {scheduleType === 'ROTATION' && (
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {t('tasks.schedule.rotationAnchor')}
+                </label>
+                <input
+                  type="date"
+                  value={anchorDate}
+                  onChange={(e) => setAnchorDate(e.target.value || format(new Date(), 'yyyy-MM-dd'))}
+                  className="input"
+                />
+                <p className="text-sm text-gray-500 mt-1">
+                  {t('tasks.schedule.rotationAnchorHint')}
+                </p>
+              </div>
+              <RotationWeeksEditor
+                weeks={rotationWeeks}
+                weekdays={WEEKDAYS}
+                onChange={setRotationWeeks}
+              />
+            </div>
+          )}
+
           {/* MONTHLY specific */}
           {scheduleType === 'MONTHLY' && (
             <div className="space-y-4">
@@ -404,9 +776,69 @@ export default function TaskEditPage() {
                   <option value="SPECIFIC_DAY">{t('tasks.schedule.monthlySpecificDay')}</option>
                   <option value="FIRST_DAY">{t('tasks.schedule.monthlyFirstDay')}</option>
                   <option value="LAST_DAY">{t('tasks.schedule.monthlyLastDay')}</option>
+                  <option value="NTH_WEEKDAY">{t('tasks.schedule.monthlyNthWeekday')}</option>
+                  <option value="NTH_WORKDAY">{t('tasks.schedule.monthlyNthWorkday')}</option>
                 </select>
               </div>
 
+              {monthlyMode === 'NTH_WEEKDAY' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {t('tasks.schedule.monthlyOrdinal')}
+                    </label>
+                    <select
+                      value={monthlyOrdinal}
+                      onChange={(e) => setMonthlyOrdinal(parseInt(e.target.value))}
+                      className="input"
+                    >
+                      <option value={1}>{t('tasks.schedule.ordinalFirst')}</option>
+                      <option value={2}>{t('tasks.schedule.ordinalSecond')}</option>
+                      <option value={3}>{t('tasks.schedule.ordinalThird')}</option>
+                      <option value={4}>{t('tasks.schedule.ordinalFourth')}</option>
+                      <option value={-1}>{t('tasks.schedule.ordinalLast')}</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {t('tasks.schedule.monthlyWeekday')}
+                    </label>
+                    <select
+                      value={monthlyWeekday}
+                      onChange={(e) => setMonthlyWeekday(parseInt(e.target.value))}
+                      className="input"
+                    >
+                      <option value={1}>{t('weekdays.long.mo')}</option>
+                      <option value={2}>{t('weekdays.long.tu')}</option>
+                      <option value={3}>{t('weekdays.long.we')}</option>
+                      <option value={4}>{t('weekdays.long.th')}</option>
+                      <option value={5}>{t('weekdays.long.fr')}</option>
+                      <option value={6}>{t('weekdays.long.sa')}</option>
+                      <option value={0}>{t('weekdays.long.su')}</option>
+                    </select>
+                  </div>
+                </div>
+              )}
+
+              {monthlyMode === 'NTH_WORKDAY' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {t('tasks.schedule.monthlyWorkdayNumber')}
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={20}
+                    value={monthlyDay}
+                    onChange={(e) => setMonthlyDay(Math.min(parseInt(e.target.value) || 1, 20))}
+                    className="input w-24"
+                  />
+                  <p className="text-sm text-gray-500 mt-1">
+                    {t('tasks.schedule.monthlyWorkdayHint')}
+                  </p>
+                </div>
+              )}
+
               {monthlyMode === 'SPECIFIC_DAY' && (
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -467,8 +899,8 @@ export default function TaskEditPage() {
             </div>
           )}
 
-          {/* INTERVAL specific */}
-          {scheduleType === 'INTERVAL' && (
+          {/* INTERVAL / AFTER_COMPLETION specific */}
+          {(scheduleType === 'INTERVAL' || scheduleType === 'AFTER_COMPLETION') && (
             <div className="space-y-4">
               <div className="grid grid-cols-2 gap-4">
                 <div>
@@ -501,34 +933,317 @@ export default function TaskEditPage() {
                 </div>
               </div>
 
+              {scheduleType === 'INTERVAL' ? (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {t('tasks.schedule.intervalAnchor')}
+                  </label>
+                  <input
+                    type="date"
+                    value={anchorDate}
+                    onChange={(e) => setAnchorDate(e.target.value || format(new Date(), 'yyyy-MM-dd'))}
+                    className="input"
+                  />
+                  <p className="text-sm text-gray-500 mt-1">
+                    {t('tasks.schedule.intervalHint')}
+                  </p>
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {t('tasks.schedule.afterCompletionFirstDate')}
+                  </label>
+                  <input
+                    type="date"
+                    value={anchorDate}
+                    onChange={(e) => setAnchorDate(e.target.value)}
+                    className="input"
+                  />
+                  <p className="text-sm text-gray-500 mt-1">
+                    {t('tasks.schedule.afterCompletionHint')}
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* RRULE specific (advanced) */}
+          {scheduleType === 'RRULE' && (
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {t('tasks.schedule.rruleLabel')}
+                </label>
+                <textarea
+                  value={rrule}
+                  onChange={(e) => setRrule(e.target.value)}
+                  className="input font-mono text-sm"
+                  rows={2}
+                  placeholder="FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR"
+                  required
+                />
+                <p className="text-sm text-gray-500 mt-1">
+                  {t('tasks.schedule.rruleHint')}
+                </p>
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                  {t('tasks.schedule.intervalAnchor')}
+                  {t('tasks.schedule.rruleAnchor')}
                 </label>
                 <input
                   type="date"
                   value={anchorDate}
-                  onChange={(e) => setAnchorDate(e.target.value || format(new Date(), 'yyyy-MM-dd'))}
+                  onChange={(e) => setAnchorDate(e.target.value)}
                   className="input"
                 />
                 <p className="text-sm text-gray-500 mt-1">
-                  {t('tasks.schedule.intervalHint')}
+                  {t('tasks.schedule.rruleAnchorHint')}
                 </p>
               </div>
             </div>
           )}
 
-          {/* Due Time */}
+          {/* Weekend - not for completion-relative schedules */}
+          {scheduleType !== 'AFTER_COMPLETION' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {t('tasks.schedule.weekendRule')}
+              </label>
+              <select
+                value={weekendRule}
+                onChange={(e) => setWeekendRule(e.target.value as WeekendRule | '')}
+                className="input"
+              >
+                <option value="">{t('tasks.schedule.weekendKeep')}</option>
+                <option value="PREVIOUS_FRIDAY">{t('tasks.schedule.weekendFriday')}</option>
+                <option value="NEXT_MONDAY">{t('tasks.schedule.weekendMonday')}</option>
+                <option value="NEAREST_WEEKDAY">{t('tasks.schedule.weekendNearest')}</option>
+              </select>
+            </div>
+          )}
+
+          {/* Holidays - not for completion-relative schedules */}
+          {scheduleType !== 'AFTER_COMPLETION' && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {t('tasks.schedule.holidayCalendar')}
+                </label>
+                <select
+                  value={holidayCalendar}
+                  onChange={(e) => setHolidayCalendar(e.target.value)}
+                  className="input"
+                >
+                  <option value="">{t('tasks.schedule.holidayNone')}</option>
+                  {HOLIDAY_CALENDARS.map((calendar) => (
+                    <option key={calendar} value={calendar}>{t(`holidayCalendars.${calendar}`)}</option>
+                  ))}
+                </select>
+              </div>
+              {holidayCalendar && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {t('tasks.schedule.holidayRule')}
+                  </label>
+                  <select
+                    value={holidayRule}
+                    onChange={(e) => setHolidayRule(e.target.value as HolidayRule)}
+                    className="input"
+                  >
+                    <option value="SKIP">{t('tasks.schedule.holidaySkip')}</option>
+                    <option value="PREVIOUS_WORKDAY">{t('tasks.schedule.holidayPrevious')}</option>
+                    <option value="NEXT_WORKDAY">{t('tasks.schedule.holidayNext')}</option>
+                  </select>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Seasonal window */}
+          <div>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <input
+                type="checkbox"
+                checked={seasonal}
+                onChange={(e) => setSeasonal(e.target.checked)}
+              />
+              {t('tasks.schedule.seasonal')}
+            </label>
+            {seasonal && (
+              <div className="grid grid-cols-2 gap-4 mt-2">
+                {([
+                  ['seasonFrom', seasonStart, setSeasonStart],
+                  ['seasonTo', seasonEnd, setSeasonEnd],
+                ] as const).map(([labelKey, value, setValue]) => (
+                  <div key={labelKey}>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {t(`tasks.schedule.${labelKey}`)}
+                    </label>
+                    <div className="flex gap-2">
+                      <input
+                        type="number"
+                        min={1}
+                        max={31}
+                        value={value.day}
+                        onChange={(e) => setValue({ ...value, day: parseInt(e.target.value) || 1 })}
+                        className="input w-20"
+                      />
+                      <select
+                        value={value.month}
+                        onChange={(e) => setValue({ ...value, month: parseInt(e.target.value) })}
+                        className="input"
+                      >
+                        {MONTH_KEYS.map((key, index) => (
+                          <option key={key} value={index + 1}>{t(`months.${key}`)}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+                ))}
+                <p className="col-span-2 text-sm text-gray-500">{t('tasks.schedule.seasonalHint')}</p>
+              </div>
+            )}
+          </div>
+
+          {/* Exception dates - only for calendar-based schedules */}
+          {hasExceptionDates && (
+            <div className="grid grid-cols-2 gap-4">
+              <DateListEditor
+                label={t('tasks.schedule.excludedDates')}
+                hint={t('tasks.schedule.excludedDatesHint')}
+                dates={excludedDates}
+                onChange={setExcludedDates}
+              />
+              <DateListEditor
+                label={t('tasks.schedule.extraDates')}
+                hint={t('tasks.schedule.extraDatesHint')}
+                dates={extraDates}
+                onChange={setExtraDates}
+              />
+            </div>
+          )}
+
+          {/* Due Times */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
               {t('tasks.schedule.dueTime')}
             </label>
-            <input
-              type="time"
-              value={dueTime}
-              onChange={(e) => setDueTime(e.target.value)}
-              className="input w-32"
-            />
+            <div className="space-y-2">
+              {dueTimes.map((time, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <input
+                    type="time"
+                    value={time}
+                    onChange={(e) => setDueTimes(dueTimes.map((value, i) => (i === index ? e.target.value : value)))}
+                    className="input w-32"
+                  />
+                  {dueTimes.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => setDueTimes(dueTimes.filter((_, i) => i !== index))}
+                      className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                      title={t('tasks.schedule.removeDueTime')}
+                    >
+                      <X size={16} />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => setDueTimes([...dueTimes, ''])}
+              className="mt-2 flex items-center gap-1 text-sm text-primary-600 hover:text-primary-700"
+            >
+              <Plus size={16} />
+              {t('tasks.schedule.addDueTime')}
+            </button>
+            <p className="text-xs text-gray-500 mt-1">{t('tasks.schedule.dueTimeHint')}</p>
+          </div>
+
+          {/* Timezone */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {t('tasks.schedule.timezone')}
+            </label>
+            <select
+              value={timezone}
+              onChange={(e) => setTimezone(e.target.value)}
+              className="input max-w-xs"
+            >
+              <option value="">{t('tasks.schedule.timezoneApp')}</option>
+              {timezone && !TIMEZONES.includes(timezone) && <option value={timezone}>{timezone}</option>}
+              {TIMEZONES.map((tz) => (
+                <option key={tz} value={tz}>{tz}</option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 mt-1">{t('tasks.schedule.timezoneHint')}</p>
+          </div>
+
+          {/* Day schedule changes take effect, and the schedules so far */}
+          {savedScheduleType && isRevisable(savedScheduleType) && isRevisable(scheduleType) && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                {t('tasks.revisions.effectiveFrom')}
+              </label>
+              <input
+                type="date"
+                value={effectiveFrom}
+                min={format(new Date(), 'yyyy-MM-dd')}
+                onChange={(e) => setEffectiveFrom(e.target.value)}
+                className="input max-w-xs"
+              />
+              <p className="text-xs text-gray-500 mt-1">{t('tasks.revisions.effectiveFromHint')}</p>
+
+              {revisions.length > 0 && (
+                <div className="mt-3">
+                  <h3 className="text-sm font-medium text-gray-700 mb-1">{t('tasks.revisions.history')}</h3>
+                  <ul className="space-y-1 text-sm text-gray-600">
+                    {revisions.map((revision) => (
+                      <li key={revision.id} className="flex gap-3">
+                        <span className="w-28 shrink-0 text-gray-500">
+                          {t('tasks.revisions.from', { date: format(parseISO(revision.effectiveFrom), 'dd.MM.yyyy') })}
+                        </span>
+                        <span>{getRevisionSummary(revision)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Preview of the next dates */}
+          <div className="rounded-lg bg-gray-50 p-4">
+            <div className="flex items-center gap-2 mb-2">
+              <CalendarDays size={16} className="text-gray-500" />
+              <h3 className="text-sm font-medium text-gray-700">{t('tasks.preview.title')}</h3>
+              {previewLoading && <span className="text-xs text-gray-400">{t('tasks.preview.loading')}</span>}
+            </div>
+            {!preview ? (
+              <p className="text-sm text-gray-500">{t('tasks.preview.invalid')}</p>
+            ) : (
+              <>
+                {preview.dates.length > 0 ? (
+                  <div className="flex flex-wrap gap-2">
+                    {preview.dates.map((date) => (
+                      <span key={date} className="badge bg-white text-gray-700 border">
+                        {format(parseISO(date), 'EEE dd.MM.yyyy', { locale: dateFnsLocale })}
+                      </span>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">{t('tasks.preview.none')}</p>
+                )}
+                {preview.warnings.map((warning) => (
+                  <p key={warning} className="flex items-start gap-1 text-xs text-amber-700 mt-2">
+                    <AlertTriangle size={14} className="shrink-0 mt-px" />
+                    {t(`tasks.preview.warnings.${warning}`)}
+                  </p>
+                ))}
+              </>
+            )}
           </div>
         </div>
 
@@ -554,6 +1269,40 @@ export default function TaskEditPage() {
               </div>
             </label>
 
+            <label className="flex items-start gap-3 p-3 rounded-lg border cursor-pointer hover:bg-gray-50 transition-colors">
+              <input
+                type="radio"
+                name="carryPolicy"
+                value="CARRY_OVER_COLLAPSE"
+                checked={carryPolicy === 'CARRY_OVER_COLLAPSE'}
+                onChange={(e) => setCarryPolicy(e.target.value as CarryPolicy)}
+                className="mt-1"
+              />
+              <div>
+                <div className="font-medium text-gray-900">{t('tasks.behavior.collapse')}</div>
+                <div className="text-sm text-gray-500">
+                  {t('tasks.behavior.collapseDesc')}
+                </div>
+              </div>
+            </label>
+
+            <label className="flex items-start gap-3 p-3 rounded-lg border cursor-pointer hover:bg-gray-50 transition-colors">
+              <input
+                type="radio"
+                name="carryPolicy"
+                value="ROLL_FORWARD"
+                checked={carryPolicy === 'ROLL_FORWARD'}
+                onChange={(e) => setCarryPolicy(e.target.value as CarryPolicy)}
+                className="mt-1"
+              />
+              <div>
+                <div className="font-medium text-gray-900">{t('tasks.behavior.rollForward')}</div>
+                <div className="text-sm text-gray-500">
+                  {t('tasks.behavior.rollForwardDesc')}
+                </div>
+              </div>
+            </label>
+
             <label className="flex items-start gap-3 p-3 rounded-lg border cursor-pointer hover:bg-gray-50 transition-colors">
               <input
                 type="radio"
@@ -570,6 +1319,36 @@ export default function TaskEditPage() {
                 </div>
               </div>
             </label>
+
+            {carryPolicy === 'FAIL_ON_MISS' && (
+              <div className="pl-3">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {t('tasks.behavior.grace')}
+                </label>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="number"
+                    min={1}
+                    max={graceUnit === 'DAYS' ? 14 : 336}
+                    value={graceValue}
+                    onChange={(e) => setGraceValue(e.target.value)}
+                    className="input w-24"
+                    placeholder="0"
+                  />
+                  <select
+                    value={graceUnit}
+                    onChange={(e) => setGraceUnit(e.target.value as 'HOURS' | 'DAYS')}
+                    className="input w-auto"
+                  >
+                    <option value="HOURS">{t('tasks.behavior.graceHours')}</option>
+                    <option value="DAYS">{t('tasks.behavior.graceDays')}</option>
+                  </select>
+                </div>
+                <p className="text-sm text-gray-500 mt-1">
+                  {t('tasks.behavior.graceHint')}
+                </p>
+              </div>
+            )}
           </div>
         </div>
 
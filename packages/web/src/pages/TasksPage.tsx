@@ -1,11 +1,12 @@
 import { useEffect, useState, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Plus, Search, Copy, Archive, Trash2, RotateCcw } from 'lucide-react';
+import { Plus, Search, Copy, Archive, Trash2, RotateCcw, Pause, Play } from 'lucide-react';
+import { format, addDays } from 'date-fns';
 import { templates as templatesApi, Template } from '../lib/api';
-import { cn } from '../lib/utils';
+import { cn, parseRotationWeeks, getRotationWeekLabel } from '../lib/utils';
 import { useTranslation } from '../i18n';
 
-type StatusFilter = 'active' | 'archived' | 'all';
+type StatusFilter = 'active' | 'paused' | 'archived' | 'all';
 type TypeFilter = string | '';
 
 export default function TasksPage() {
@@ -14,6 +15,8 @@ export default function TasksPage() {
   const [search, setSearch] = useState('');
   const [statusFilter, setStatusFilter] = useState<StatusFilter>('active');
   const [typeFilter, setTypeFilter] = useState<TypeFilter>('');
+  const [pausingId, setPausingId] = useState<string | null>(null);
+  const [resumeOn, setResumeOn] = useState('');
   const navigate = useNavigate();
   const { t, locale } = useTranslation();
 
@@ -57,6 +60,27 @@ export default function TasksPage() {
     }
   };
 
+  const handlePause = async (id: string) => {
+    try {
+      await templatesApi.pause(id, resumeOn || undefined);
+      setPausingId(null);
+      setResumeOn('');
+      loadTemplates();
+    } catch (error) {
+      console.error('Failed to pause template:', error);
+    }
+  };
+
+  const handleResume = async (e: React.MouseEvent, id: string) => {
+    e.stopPropagation();
+    try {
+      await templatesApi.resume(id);
+      loadTemplates();
+    } catch (error) {
+      console.error('Failed to resume template:', error);
+    }
+  };
+
   const handleRestore = async (e: React.MouseEvent, id: string) => {
     e.stopPropagation();
     try {
@@ -88,6 +112,9 @@ export default function TasksPage() {
       MONTHLY: t('scheduleLabels.monthly'),
       YEARLY: t('scheduleLabels.yearly'),
       INTERVAL: t('scheduleLabels.interval'),
+      RRULE: t('scheduleLabels.rrule'),
+      AFTER_COMPLETION: t('scheduleLabels.afterCompletion'),
+      ROTATION: t('scheduleLabels.rotation'),
     };
     return labels[type] || type;
   };
@@ -101,6 +128,16 @@ export default function TasksPage() {
     }).join(', ');
   };
 
+  // "2-week cycle: A: Mo, We · B: Tu"
+  const getRotationLabel = (rotationWeeks: string | null): string => {
+    const weeks = parseRotationWeeks(rotationWeeks);
+    if (weeks.length === 0) return '';
+    const parts = weeks.map((week, index) =>
+      `${getRotationWeekLabel(index)}: ${week.days.length > 0 ? formatWeekdays([...week.days].sort().join(',')) : '-'}`
+    );
+    return t('scheduleLabels.rotationCycle', { count: weeks.length, weeks: parts.join(' · ') });
+  };
+
   const getIntervalLabel = (unit: string | null, value: number | null): string => {
     if (!unit || !value) return '';
     const unitKey = unit.toLowerCase();
@@ -108,25 +145,64 @@ export default function TasksPage() {
     return t('scheduleLabels.everyInterval', { value, unit: unitLabel });
   };
 
-  const getMonthlyModeLabel = (mode: string | null, day: number | null): string => {
+  const getAfterCompletionLabel = (unit: string | null, value: number | null): string => {
+    if (!unit || !value) return '';
+    const unitKey = unit.toLowerCase();
+    const unitLabel = value === 1 ? t(`intervalUnits.${unitKey}`) : t(`intervalUnits.${unitKey}_plural`);
+    return t('scheduleLabels.afterCompletionBy', { value, unit: unitLabel });
+  };
+
+  const getMonthlyModeLabel = (template: Template): string => {
+    const { monthlyMode: mode, monthlyDay: day } = template;
     if (mode === 'FIRST_DAY') return t('scheduleLabels.monthlyFirst');
     if (mode === 'LAST_DAY') return t('scheduleLabels.monthlyLast');
+    if (mode === 'NTH_WEEKDAY') {
+      if (template.monthlyOrdinal == null || template.monthlyWeekday == null) return '';
+      const ordinalKeys: Record<number, string> = { 1: 'first', 2: 'second', 3: 'third', 4: 'fourth', [-1]: 'last' };
+      const dayKeys = ['su', 'mo', 'tu', 'we', 'th', 'fr', 'sa'];
+      return t('scheduleLabels.monthlyNthWeekday', {
+        ordinal: t(`ordinals.${ordinalKeys[template.monthlyOrdinal]}`),
+        weekday: t(`weekdays.long.${dayKeys[template.monthlyWeekday]}`),
+      });
+    }
+    if (mode === 'NTH_WORKDAY') return day ? t('scheduleLabels.monthlyNthWorkday', { day }) : '';
     if (day) return t('scheduleLabels.monthlyDay', { day });
     return '';
   };
 
+  const formatSeasonDay = (value: string): string => {
+    const [month, day] = value.split('-').map(Number);
+    return new Date(2000, month - 1, day).toLocaleDateString(locale === 'de' ? 'de-DE' : 'en-US', { day: 'numeric', month: 'short' });
+  };
+
   const getScheduleDescription = (template: Template): string => {
+    const description = getBaseScheduleDescription(template);
+    if (!template.seasonStart || !template.seasonEnd) return description;
+    const season = t('scheduleLabels.season', {
+      from: formatSeasonDay(template.seasonStart),
+      to: formatSeasonDay(template.seasonEnd),
+    });
+    return description ? `${description} (${season})` : season;
+  };
+
+  const getBaseScheduleDescription = (template: Template): string => {
     switch (template.scheduleType) {
       case 'DAILY':
         return t('scheduleLabels.daily');
       case 'WEEKLY':
         return t('scheduleLabels.weeklyOn', { days: formatWeekdays(template.weeklyDays) });
       case 'MONTHLY':
-        return getMonthlyModeLabel(template.monthlyMode, template.monthlyDay);
+        return getMonthlyModeLabel(template);
       case 'YEARLY':
         return t('scheduleLabels.yearlyOn', { day: template.yearlyDay ?? '', month: template.yearlyMonth ?? '' });
       case 'INTERVAL':
         return getIntervalLabel(template.intervalUnit, template.intervalValue);
+      case 'AFTER_COMPLETION':
+        return getAfterCompletionLabel(template.intervalUnit, template.intervalValue);
+      case 'RRULE':
+        return template.rrule ?? '';
+      case 'ROTATION':
+        return getRotationLabel(template.rotationWeeks);
       case 'ONCE':
         return template.anchorDate
           ? t('scheduleLabels.onceWithDate', { date: new Date(template.anchorDate).toLocaleDateString(locale === 'de' ? 'de-DE' : 'en-US') })
@@ -136,6 +212,17 @@ export default function TasksPage() {
     }
   };
 
+  const getSeriesEndLabel = (template: Template): string => {
+    const parts: string[] = [];
+    if (template.endDate) {
+      parts.push(t('scheduleLabels.until', { date: new Date(template.endDate).toLocaleDateString(locale === 'de' ? 'de-DE' : 'en-US') }));
+    }
+    if (template.maxOccurrences) {
+      parts.push(t('scheduleLabels.times', { count: template.maxOccurrences }));
+    }
+    return parts.join(', ');
+  };
+
   return (
     <div className="max-w-4xl mx-auto space-y-6">
       {/* Header */}
@@ -172,6 +259,7 @@ export default function TasksPage() {
             className="input w-auto"
           >
             <option value="active">{t('tasks.filters.active')}</option>
+            <option value="paused">{t('tasks.filters.paused')}</option>
             <option value="archived">{t('tasks.filters.archived')}</option>
             <option value="all">{t('tasks.filters.all')}</option>
           </select>
@@ -189,6 +277,9 @@ export default function TasksPage() {
             <option value="monthly">{t('tasks.schedule.monthly')}</option>
             <option value="yearly">{t('tasks.schedule.yearly')}</option>
             <option value="interval">{t('scheduleLabels.interval')}</option>
+            <option value="after_completion">{t('scheduleLabels.afterCompletion')}</option>
+            <option value="rrule">{t('scheduleLabels.rrule')}</option>
+            <option value="rotation">{t('scheduleLabels.rotation')}</option>
           </select>
         </div>
       </div>
@@ -218,7 +309,7 @@ export default function TasksPage() {
               onClick={() => navigate(`/tasks/${template.id}`)}
               className={cn(
                 'card p-4 cursor-pointer hover:shadow-md transition-shadow',
-                !template.isActive && 'opacity-60'
+                (!template.isActive || template.pausedAt) && 'opacity-60'
               )}
             >
               <div className="flex items-start justify-between gap-4">
@@ -235,6 +326,13 @@ export default function TasksPage() {
                     {!template.isActive && (
                       <span className="badge bg-gray-200 text-gray-600">{t('tasks.badges.archived')}</span>
                     )}
+                    {template.isActive && template.pausedAt && (
+                      <span className="badge bg-blue-100 text-blue-700">
+                        {template.resumeOn
+                          ? t('tasks.badges.pausedUntil', { date: new Date(template.resumeOn).toLocaleDateString(locale === 'de' ? 'de-DE' : 'en-US') })
+                          : t('tasks.badges.paused')}
+                      </span>
+                    )}
                   </div>
 
                   <div className="flex flex-wrap gap-2 text-sm text-gray-500">
@@ -242,13 +340,24 @@ export default function TasksPage() {
                       {getScheduleTypeLabel(template.scheduleType)}
                     </span>
                     <span>{getScheduleDescription(template)}</span>
+                    {template.scheduleType !== 'ONCE' && (template.endDate || template.maxOccurrences) && (
+                      <span>{getSeriesEndLabel(template)}</span>
+                    )}
                     <span className={cn(
                       'badge',
                       template.carryPolicy === 'FAIL_ON_MISS'
                         ? 'bg-red-100 text-red-700'
-                        : 'bg-yellow-100 text-yellow-700'
+                        : template.carryPolicy === 'ROLL_FORWARD'
+                          ? 'bg-gray-100 text-gray-600'
+                          : 'bg-yellow-100 text-yellow-700'
                     )}>
-                      {template.carryPolicy === 'FAIL_ON_MISS' ? t('tasks.badges.fails') : t('tasks.badges.stacks')}
+                      {template.carryPolicy === 'FAIL_ON_MISS'
+                        ? t('tasks.badges.fails')
+                        : template.carryPolicy === 'CARRY_OVER_COLLAPSE'
+                          ? t('tasks.badges.collapses')
+                          : template.carryPolicy === 'ROLL_FORWARD'
+                            ? t('tasks.badges.rolls')
+                            : t('tasks.badges.stacks')}
                     </span>
                   </div>
 
@@ -267,6 +376,69 @@ export default function TasksPage() {
                     <Copy size={18} className="text-gray-500" />
                   </button>
 
+                  {template.isActive && (template.pausedAt ? (
+                    <button
+                      onClick={(e) => handleResume(e, template.id)}
+                      className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                      title={t('tasks.actions.resume')}
+                    >
+                      <Play size={18} className="text-gray-500" />
+                    </button>
+                  ) : (
+                    <div className="relative">
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setResumeOn('');
+                          setPausingId(pausingId === template.id ? null : template.id);
+                        }}
+                        className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+                        title={t('tasks.actions.pause')}
+                      >
+                        <Pause size={18} className="text-gray-500" />
+                      </button>
+
+                      {pausingId === template.id && (
+                        <>
+                          <div
+                            className="fixed inset-0 z-10"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setPausingId(null);
+                            }}
+                          />
+                          <div
+                            className="absolute right-0 top-full mt-1 bg-white rounded-lg shadow-lg border border-gray-200 p-4 z-20 w-64 space-y-3 cursor-default"
+                            onClick={(e) => e.stopPropagation()}
+                          >
+                            <div>
+                              <h4 className="font-medium text-gray-900">{t('tasks.pause.title')}</h4>
+                              <p className="text-xs text-gray-500 mt-1">{t('tasks.pause.description')}</p>
+                            </div>
+                            <div>
+                              <label className="block text-sm font-medium text-gray-700 mb-1">
+                                {t('tasks.pause.resumeOn')}
+                              </label>
+                              <input
+                                type="date"
+                                value={resumeOn}
+                                min={format(addDays(new Date(), 1), 'yyyy-MM-dd')}
+                                onChange={(e) => setResumeOn(e.target.value)}
+                                className="input"
+                              />
+                            </div>
+                            <button
+                              onClick={() => handlePause(template.id)}
+                              className="btn btn-primary w-full"
+                            >
+                              {t('tasks.pause.confirm')}
+                            </button>
+                          </div>
+                        </>
+                      )}
+                    </div>
+                  ))}
+
                   {template.isActive ? (
                     <button
                       onClick={(e) => handleArchive(e, template.id)}